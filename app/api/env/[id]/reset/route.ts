@@ -0,0 +1,13 @@
+import { errorResponse, parseResetRequest, readJson, resetResponse } from "@/lib/env-api"
+import { getSession, resetSession } from "@/lib/env-sessions"
+
+// Starts the next episode. Body (optional): { seed } to replay a specific episode.
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const session = getSession(params.id)
+  if (!session) return errorResponse(404, `Unknown session ${params.id}`)
+  const body = await readJson(request)
+  if (!body.success) return errorResponse(400, "Invalid request body", body.errors)
+  const parsed = parseResetRequest(body.data)
+  if (!parsed.success) return errorResponse(400, "Invalid reset request", parsed.errors)
+  return Response.json(resetResponse(resetSession(session, parsed.data.seed)))
+}
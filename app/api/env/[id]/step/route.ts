@@ -0,0 +1,15 @@
+import { errorResponse, parseStepRequest, readJson, stepResponse } from "@/lib/env-api"
+import { getSession, stepSession } from "@/lib/env-sessions"
+
+// Applies one joint action. Body: { actions: number[] } with one action per
+// agent, or { action } for single-agent environments.
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const session = getSession(params.id)
+  if (!session) return errorResponse(404, `Unknown session ${params.id}`)
+  const body = await readJson(request)
+  if (!body.success) return errorResponse(400, "Invalid request body", body.errors)
+  const parsed = parseStepRequest(body.data, session.env.agentCount)
+  if (!parsed.success) return errorResponse(400, "Invalid step request", parsed.errors)
+  if (session.env.done) return errorResponse(409, "The episode has finished; reset the session first")
+  return Response.json(stepResponse(session, stepSession(session, parsed.data)))
+}
@@ -0,0 +1,14 @@
+import { errorResponse, parseCreateRequest, readJson, sessionResponse } from "@/lib/env-api"
+import { createSession, resetSession } from "@/lib/env-sessions"
+
+// Creates a session and starts its first episode.
+// Body: { environment: "maze" } or { config: <environment file> }, plus an optional seed.
+export async function POST(request: Request) {
+  const body = await readJson(request)
+  if (!body.success) return errorResponse(400, "Invalid request body", body.errors)
+  const parsed = parseCreateRequest(body.data)
+  if (!parsed.success) return errorResponse(400, "Invalid environment request", parsed.errors)
+  const { config, environmentKey, seed } = parsed.data
+  const session = createSession(config, environmentKey, seed)
+  return Response.json(sessionResponse(session, resetSession(session)), { status: 201 })
+}
@@ -0,0 +1,23 @@
+import { errorResponse } from "@/lib/env-api"
+import { parseRemoteLog } from "@/lib/remote-agent"
+import { replayLog, stopReplay } from "@/lib/remote-stream"
+
+const DEFAULT_INTERVAL_MS = 200
+const MIN_INTERVAL_MS = 10
+const MAX_INTERVAL_MS = 5000
+
+// Replays a JSONL log of remote agent messages to every viewer, one message
+// per `?interval=` milliseconds, as if a trainer were publishing them.
+export async function POST(request: Request) {
+  const parsed = parseRemoteLog(await request.text())
+  if (!parsed.success) return errorResponse(400, "Invalid remote agent log", parsed.errors)
+  const requested = Number(new URL(request.url).searchParams.get("interval") ?? DEFAULT_INTERVAL_MS)
+  const interval = Number.isFinite(requested) ? Math.max(MIN_INTERVAL_MS, Math.min(MAX_INTERVAL_MS, requested)) : DEFAULT_INTERVAL_MS
+  replayLog(parsed.data, interval)
+  return Response.json({ messages: parsed.data.length, interval }, { status: 202 })
+}
+
+export function DELETE() {
+  stopReplay()
+  return new Response(null, { status: 204 })
+}
@@ -0,0 +1,21 @@
+import { errorResponse, readJson } from "@/lib/env-api"
+import { parseRemoteMessage } from "@/lib/remote-agent"
+import { publish, remoteEventStream } from "@/lib/remote-stream"
+
+export const dynamic = "force-dynamic"
+
+// The simulator subscribes here to watch a remote agent.
+export function GET(request: Request) {
+  return new Response(remoteEventStream(request.signal), {
+    headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache, no-transform", Connection: "keep-alive" },
+  })
+}
+
+// A trainer publishes one reset or step message per request; see RemoteAgentMessage.
+export async function POST(request: Request) {
+  const body = await readJson(request)
+  if (!body.success) return errorResponse(400, "Invalid request body", body.errors)
+  const parsed = parseRemoteMessage(body.data)
+  if (!parsed.success) return errorResponse(400, "Invalid remote agent message", parsed.errors)
+  return Response.json({ viewers: publish(parsed.data) })
+}
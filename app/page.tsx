@@ -1,29 +1,295 @@
 "use client"
 
-import React, { useState, useEffect, useRef, useCallback } from "react"
-import { Play, Pause, RotateCcw, SkipForward, Upload, Eye, Grid3x3, Bot, BarChart3, X, HelpCircle } from "lucide-react"
-import { Line, Bar } from "react-chartjs-2"
+import React, { useState, useEffect, useRef, useCallback, useMemo } from "react"
+import { Play, Pause, RotateCcw, SkipForward, Upload, Download, Eye, Grid3x3, Bot, BarChart3, X, HelpCircle, Dices, Columns2, Keyboard } from "lucide-react"
+import { Bar, Chart, Line } from "react-chartjs-2"
 import {
+  type ChartData,
+  type TooltipItem,
   Chart as ChartJS,
   CategoryScale,
   LinearScale,
+  LogarithmicScale,
   PointElement,
   LineElement,
   BarElement,
+  BarController,
+  LineController,
   Title,
   Tooltip,
   Legend,
 } from "chart.js"
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { BehaviorCloningPanel } from "@/components/behavior-cloning-panel"
+import { DemonstrationPanel } from "@/components/demonstration-panel"
+import { EnvironmentEditorPanel } from "@/components/environment-editor-panel"
+import { EvaluationPanel } from "@/components/evaluation-panel"
+import { HeatmapLegend } from "@/components/heatmap-legend"
+import { NumberField } from "@/components/number-field"
+import { PlanningPanel } from "@/components/planning-panel"
+import { RemoteAgentPanel } from "@/components/remote-agent-panel"
+import { RemotePolicyForm } from "@/components/remote-policy-form"
+import { ReplayPanel, type ReplayState } from "@/components/replay-panel"
+import { TrainingPanel } from "@/components/training-panel"
+import { toast } from "@/hooks/use-toast"
+import { demonstrationsFor, isDemonstration, recordingsFor } from "@/lib/demonstrations"
+import { DEFAULT_TILE_REWARD, type EditorTool, applyEditorTool } from "@/lib/environment-editor"
+import { parseEnvironmentFile, toEnvironmentFile } from "@/lib/environment-schema"
+import { customEnvironmentKey, isCustomEnvironmentKey, loadCustomEnvironments, saveCustomEnvironments } from "@/lib/environment-store"
+import { type EpisodeRecord, ROLLING_WINDOW, episodeRecord, mean, movingAverage, rollingRate } from "@/lib/episode-metrics"
+import { type EpisodeRecording, createRecording, frameCount, positionsAtFrame, stepAndRecord, trajectoriesUntil } from "@/lib/episode-recording"
+import type { EvaluationResult } from "@/lib/evaluation"
+import { ACTIONS, type EnvironmentConfig, type Position, dynamicsFor, environments, fromStateIndex, isGoal, isStochastic, maxStepsFor, rewardsFor, samePosition, startPositions, toStateIndex } from "@/lib/grid-env"
+import { HUMAN_POLICY_ID, keyAction } from "@/lib/manual-control"
+import { MultiAgentGridEnv } from "@/lib/multi-agent-env"
+import type { PlanningResult } from "@/lib/planning"
+import { type Policy, type RemotePolicy, actionProbabilities, actionValues, greedyAction } from "@/lib/policy"
+import { comparePolicies } from "@/lib/policy-comparison"
+import { parsePolicy } from "@/lib/policy-schema"
+import { ACTION_STREAM, MAX_SEED, createRandom, deriveSeed, randomSeed } from "@/lib/random"
+import { REMOTE_POLICY_ID, type RemoteAgentMessage, recordRemoteStep, remoteMessageErrors, withRemoteQValues } from "@/lib/remote-agent"
+import { DEFAULT_REMOTE_TIMEOUT_MS, type RemoteDecision, type RemoteLatency, addLatency, requestDecisions } from "@/lib/remote-policy"
+import { downloadFile } from "@/lib/utils"
+import { type ValueGrid, type ValueOverlay, heatmapColor, normalizeValue, stateValue, valueGrid } from "@/lib/value-heatmap"
+import { type VisitationLog, MAX_RECENT_EPISODES, addEpisodeVisits, createVisitationLog, episodeVisits, visitationCounts } from "@/lib/visitation"
 
 
 // Register Chart.js components
-ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, BarElement, Title, Tooltip, Legend)
+ChartJS.register(CategoryScale, LinearScale, LogarithmicScale, PointElement, LineElement, BarElement, BarController, LineController, Title, Tooltip, Legend)
+
+const AGENT_COLORS = [0x4488ff, 0xff44ff]
+const TRAJECTORY_COLORS = [0xffff00, 0xff88ff]
+const AGENT_CHART_COLORS = ["rgb(68, 136, 255)", "rgb(255, 68, 255)"]
+const DEFAULT_SEED = 42
+// Oldest recordings are dropped beyond this many episodes.
+const MAX_RECORDINGS = 200
+
+// Flat cone on cell `[x, y]` pointing in the action's direction.
+const createActionArrow = (action: number, [x, y]: Position, { scale = 1, opacity = 0.8, color = 0x00ff00 } = {}) => {
+  const [dx, dz] = ACTIONS[action]
+  const arrow = new THREE.Mesh(new THREE.ConeGeometry(0.08 * scale, 0.25 * scale, 8), new THREE.MeshBasicMaterial({ color, transparent: true, opacity }))
+  arrow.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), new THREE.Vector3(dx, 0, dz))
+  arrow.position.set(x + dx * 0.2, 0.2, y + dz * 0.2)
+  return arrow
+}
+
+// Short summary of an environment's dynamics for the overlay panel.
+const describeDynamics = (env: EnvironmentConfig) => {
+  if (!isStochastic(env)) return "Deterministic"
+  const { slipProbability, actionNoise, tileSlipProbability } = dynamicsFor(env)
+  const percent = (p: number) => `${Math.round(p * 100)}%`
+  const parts = []
+  if (slipProbability > 0) parts.push(`slip ${percent(slipProbability)}`)
+  if (actionNoise > 0) parts.push(`noise ${percent(actionNoise)}`)
+  const iceTiles = (env.slippery ?? []).length
+  if (iceTiles > 0 && tileSlipProbability > 0) parts.push(`${iceTiles} ice (${percent(tileSlipProbability)})`)
+  return parts.join(" · ")
+}
+
+// Everything about an environment that affects play, i.e. all but its name.
+const dynamicsKey = ({ name: _name, ...dynamics }: EnvironmentConfig) => JSON.stringify(dynamics)
+
+// Pixels per cell on the value overlay texture.
+const OVERLAY_CELL_SIZE = 96
+
+// Wedge corners per action, as offsets from the cell centre in half-cells.
+const ACTION_WEDGES = ACTIONS.map(([dx, dy]) => [
+  [dx - dy, dy - dx],
+  [dx + dy, dy + dx],
+])
+
+// Floor overlays are painted on one canvas laid over the floor, so a 20x20
+// grid costs a single texture instead of hundreds of meshes. Canvas rows run
+// along +z, matching the grid's y.
+const createFloorOverlay = (size: { x: number; y: number }, name: string, height: number, paint: (ctx: CanvasRenderingContext2D) => void) => {
+  const canvas = document.createElement("canvas")
+  canvas.width = size.x * OVERLAY_CELL_SIZE
+  canvas.height = size.y * OVERLAY_CELL_SIZE
+  const ctx = canvas.getContext("2d")
+  if (!ctx) return null
+  paint(ctx)
+  const texture = new THREE.CanvasTexture(canvas)
+  const plane = new THREE.Mesh(
+    new THREE.PlaneGeometry(size.x, size.y),
+    new THREE.MeshBasicMaterial({ map: texture, transparent: true, opacity: 0.85, depthWrite: false })
+  )
+  plane.rotation.x = -Math.PI / 2
+  plane.position.set(size.x / 2 - 0.5, height, size.y / 2 - 0.5)
+  plane.name = name
+  return plane
+}
+
+// Overlays are rebuilt often (every policy update while training), so their
+// textures are released rather than left to the GPU.
+const disposeFloorOverlay = (overlay: THREE.Mesh<THREE.BufferGeometry, THREE.MeshBasicMaterial>) => {
+  overlay.material.map?.dispose()
+  overlay.material.dispose()
+  overlay.geometry.dispose()
+}
+
+// Releases the meshes of a removed group, e.g. the action arrows and value
+// overlay that are rebuilt on every policy update.
+const disposeObjectTree = (object: THREE.Object3D) =>
+  object.traverse(child => {
+    if (!(child instanceof THREE.Mesh)) return
+    child.geometry.dispose()
+    const materials = (Array.isArray(child.material) ? child.material : [child.material]) as THREE.MeshBasicMaterial[]
+    materials.forEach(material => {
+      material.map?.dispose()
+      material.dispose()
+    })
+  })
+
+const createValueOverlay = (grid: ValueGrid, size: { x: number; y: number }, overlay: ValueOverlay, showLabels: boolean) =>
+  createFloorOverlay(size, "value_overlay", 0.005, ctx => {
+    const half = OVERLAY_CELL_SIZE / 2
+    ctx.textAlign = "center"
+    ctx.textBaseline = "middle"
+    grid.values.forEach((actions, state) => {
+      if (!actions) return
+      const cx = (state % size.x) * OVERLAY_CELL_SIZE + half
+      const cy = Math.floor(state / size.x) * OVERLAY_CELL_SIZE + half
+      if (overlay === "state_value") {
+        const value = stateValue(actions)
+        ctx.fillStyle = heatmapColor(normalizeValue(grid, value))
+        ctx.fillRect(cx - half, cy - half, OVERLAY_CELL_SIZE, OVERLAY_CELL_SIZE)
+        if (showLabels) {
+          ctx.font = `bold ${OVERLAY_CELL_SIZE / 4}px monospace`
+          ctx.fillStyle = "white"
+          ctx.fillText(value.toFixed(2), cx, cy)
+        }
+        return
+      }
+      actions.forEach((value, action) => {
+        const [[ax, ay], [bx, by]] = ACTION_WEDGES[action]
+        ctx.beginPath()
+        ctx.moveTo(cx, cy)
+        ctx.lineTo(cx + ax * half, cy + ay * half)
+        ctx.lineTo(cx + bx * half, cy + by * half)
+        ctx.closePath()
+        ctx.fillStyle = heatmapColor(normalizeValue(grid, value))
+        ctx.fill()
+        ctx.strokeStyle = "rgba(0, 0, 0, 0.4)"
+        ctx.stroke()
+        if (showLabels) {
+          const [dx, dy] = ACTIONS[action]
+          ctx.font = `${OVERLAY_CELL_SIZE / 7}px monospace`
+          ctx.fillStyle = "white"
+          ctx.fillText(value.toFixed(1), cx + dx * half * 0.6, cy + dy * half * 0.6)
+        }
+      })
+    })
+  })
+
+// Cells coloured by how often agents stood on them; unvisited cells stay clear.
+const createVisitationOverlay = (counts: number[], size: { x: number; y: number }) => {
+  const max = Math.max(...counts)
+  return createFloorOverlay(size, "visitation", 0.004, ctx => {
+    counts.forEach((count, state) => {
+      if (count <= 0) return
+      ctx.fillStyle = heatmapColor(count / max)
+      ctx.fillRect((state % size.x) * OVERLAY_CELL_SIZE, Math.floor(state / size.x) * OVERLAY_CELL_SIZE, OVERLAY_CELL_SIZE, OVERLAY_CELL_SIZE)
+    })
+  })
+}
+
+// Red frames on the cells where two policies' greedy actions differ. Drawn
+// above the value overlay so it stays visible with heatmaps on.
+const createDisagreementOverlay = (states: number[], size: { x: number; y: number }) =>
+  createFloorOverlay(size, "disagreement", 0.006, ctx => {
+    const inset = OVERLAY_CELL_SIZE * 0.08
+    ctx.lineWidth = inset
+    states.forEach(state => {
+      const x = (state % size.x) * OVERLAY_CELL_SIZE
+      const y = Math.floor(state / size.x) * OVERLAY_CELL_SIZE
+      ctx.fillStyle = "rgba(255, 40, 40, 0.25)"
+      ctx.fillRect(x, y, OVERLAY_CELL_SIZE, OVERLAY_CELL_SIZE)
+      ctx.strokeStyle = "rgb(255, 60, 60)"
+      ctx.strokeRect(x + inset / 2, y + inset / 2, OVERLAY_CELL_SIZE - inset, OVERLAY_CELL_SIZE - inset)
+    })
+  })
+
+// Background and lights shared by the main and the comparison viewport.
+const createViewportScene = () => {
+  const scene = new THREE.Scene()
+  scene.background = new THREE.Color(0x1a1a2e)
+  scene.add(new THREE.AmbientLight(0xcccccc, 0.6))
+  const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8)
+  directionalLight.position.set(10, 15, 5)
+  directionalLight.castShadow = true
+  scene.add(directionalLight)
+  return scene
+}
+
+const resizeViewport = (mount: HTMLElement | null, renderer: THREE.WebGLRenderer | null, camera: THREE.PerspectiveCamera | null) => {
+  if (!mount || !renderer || !camera) return
+  const { clientWidth: width, clientHeight: height } = mount
+  camera.aspect = width / height
+  camera.updateProjectionMatrix()
+  renderer.setSize(width, height)
+}
+
+// Removes everything that belongs to one episode: agents, paths and arrows.
+const clearEpisodeObjects = (scene: THREE.Scene) => {
+  scene.children
+    .filter(c => c.name?.startsWith("agent_") || c.name?.startsWith("trajectory_line") || c.name === "qvalues")
+    .forEach(obj => {
+      scene.remove(obj)
+      disposeObjectTree(obj)
+    })
+}
+
+const drawTrajectories = (scene: THREE.Scene | null, trajectories: THREE.Vector3[][]) => {
+  if (!scene) return
+  scene.children.filter(c => c.name.startsWith("trajectory_line")).forEach(obj => scene.remove(obj))
+  trajectories.forEach((points, id) => {
+    if (points.length < 2) return
+    const line = new THREE.Line(new THREE.BufferGeometry().setFromPoints(points), new THREE.LineBasicMaterial({ color: TRAJECTORY_COLORS[id % TRAJECTORY_COLORS.length] }))
+    line.name = `trajectory_line_${id}`
+    scene.add(line)
+  })
+}
+
+// Steps one viewport's environment, moves its agent meshes and extends its
+// trajectories. The meshes only mirror the engine state; they are never read back.
+const stepViewport = (
+  scene: THREE.Scene | null,
+  env: MultiAgentGridEnv,
+  policy: Policy | null,
+  recording: EpisodeRecording,
+  random: () => number,
+  setTrajectories: React.Dispatch<React.SetStateAction<THREE.Vector3[][]>>,
+  humanAction?: number,
+  decisions?: (RemoteDecision | null)[]
+) => {
+  const previous = env.positions.map(([x, y]): Position => [x, y])
+  const result = stepAndRecord(env, policy, recording, random, humanAction, decisions)
+  const { info } = result
+  const moved = info.map(({ position }, id) => !samePosition(position, previous[id]))
+  info.forEach(({ position }, id) => {
+    const agentMesh = scene?.getObjectByName(`agent_${id}`)
+    if (agentMesh && moved[id]) {
+      agentMesh.position.x = position[0]
+      agentMesh.position.z = position[1]
+    }
+  })
+  setTrajectories(prev =>
+    prev.map((points, id) => (moved[id] ? [...points, new THREE.Vector3(info[id].position[0], 0.2, info[id].position[1])] : points))
+  )
+  return result
+}
 
 
 // --- Helper Components ---
-const InfoCard = ({ title, value, description, icon: Icon }) => (
+interface InfoCardProps {
+  title: string
+  value: string | number
+  description: string
+  icon?: React.ComponentType<{ className?: string }>
+}
+
+const InfoCard = ({ title, value, description, icon: Icon }: InfoCardProps) => (
   <div className="bg-gray-900 p-4 rounded-lg text-center flex flex-col items-center">
     <div className="flex items-center gap-2">
         {Icon && <Icon className="w-6 h-6 text-gray-400" />}
@@ -34,7 +300,13 @@ const InfoCard = ({ title, value, description, icon: Icon }) => (
   </div>
 )
 
-const ChartCard = ({ title, description, children }) => (
+interface ChartCardProps {
+  title: string
+  description: string
+  children: React.ReactNode
+}
+
+const ChartCard = ({ title, description, children }: ChartCardProps) => (
   <div className="bg-gray-900 p-4 rounded-lg flex flex-col h-full">
     <h3 className="text-xl font-semibold mb-1">{title}</h3>
     <p className="text-sm text-gray-500 mb-3">{description}</p>
@@ -42,44 +314,235 @@ const ChartCard = ({ title, description, children }) => (
   </div>
 )
 
+// Validation messages for a toast; long lists are cut short.
+const IssueList = ({ errors, limit = 5 }: { errors: string[]; limit?: number }) => (
+  <ul className="list-disc list-inside font-mono text-xs space-y-0.5">
+    {errors.slice(0, limit).map((error, index) => (
+      <li key={index}>{error}</li>
+    ))}
+    {errors.length > limit && <li>…and {errors.length - limit} more</li>}
+  </ul>
+)
+
 // --- Enhanced Dashboard Component ---
-const Dashboard = ({ rewardHistory, stepsPerEpisode, onClose }) => {
-  const cumulativeReward = rewardHistory.reduce((acc, reward, index) => {
-    acc.push((acc[index - 1] || 0) + reward)
-    return acc
-  }, [])
+interface DashboardProps {
+  // One entry per step of the current game with the reward of every agent.
+  rewardHistory: number[][]
+  // Every finished game, won or timed out.
+  episodes: EpisodeRecord[]
+  agentWins: number[]
+  discount: number
+  planningResult: PlanningResult | null
+  evaluation: EvaluationResult | null
+  policyId: string
+  comparison: { policyId: string; episodes: EpisodeRecord[] } | null
+  onClose: () => void
+}
+
+const Dashboard = ({ rewardHistory, episodes, agentWins, discount, planningResult, evaluation, policyId, comparison, onClose }: DashboardProps) => {
+  const cumulate = (rewards: number[]) =>
+    rewards.reduce<number[]>((acc, reward, index) => {
+      acc.push((acc[index - 1] || 0) + reward)
+      return acc
+    }, [])
+  const cumulativeReward = cumulate(rewardHistory.map(rewards => rewards.reduce((a, b) => a + b, 0)))
+  const agentCount = agentWins.length
+  const agentCumulativeRewards = agentWins.map((_, id) => cumulate(rewardHistory.map(rewards => rewards[id] ?? 0)))
 
   const cumulativeRewardData = {
     labels: cumulativeReward.map((_, index) => `Step ${index + 1}`),
     datasets: [
       {
-        label: "Total Score",
+        label: "Game Score",
         data: cumulativeReward,
         borderColor: "rgb(75, 192, 192)",
         backgroundColor: "rgba(75, 192, 192, 0.2)",
         fill: true,
         tension: 0.1,
       },
+      ...(agentCount > 1
+        ? agentCumulativeRewards.map((data, id) => ({
+            label: `Agent ${id}`,
+            data,
+            borderColor: AGENT_CHART_COLORS[id % AGENT_CHART_COLORS.length],
+            fill: false,
+            tension: 0.1,
+          }))
+        : []),
     ],
   }
 
-  const stepsChartData = {
-    labels: stepsPerEpisode.map((_, index) => `Game ${index + 1}`),
+  const episodeLabels = episodes.map(episode => `Game ${episode.episode}`)
+  const wins = episodes.filter(episode => episode.terminated)
+  const timeouts = episodes.filter(episode => episode.truncated).length
+  const percentOf = (count: number) => `${episodes.length > 0 ? Math.round((count / episodes.length) * 100) : 0}%`
+  // With a comparison policy loaded every game is played by both. It covers
+  // the most recent games, so its series are padded to line up with `episodes`.
+  const comparedEpisodes = comparison?.episodes ?? []
+  const comparisonOffset = episodes.length - comparedEpisodes.length
+  const alignCompared = <T,>(data: T[]) => [...new Array(comparisonOffset).fill(null), ...data]
+  const pairedEpisodes = episodes.slice(comparisonOffset)
+  const pairedWins = pairedEpisodes.filter(episode => episode.terminated)
+  const comparedWins = comparedEpisodes.filter(episode => episode.terminated)
+  const named = (label: string) => (comparison ? `${label} · ${policyId}` : label)
+  const compared = (label: string) => `${label} · ${comparison?.policyId}`
+
+  const returnChartData = {
+    labels: episodeLabels,
     datasets: [
       {
-        label: "Steps per Game",
-        data: stepsPerEpisode,
-        backgroundColor: 'rgba(255, 99, 132, 0.6)',
+        label: named("Return"),
+        data: episodes.map(episode => episode.return),
+        borderColor: "rgb(75, 192, 192)",
+        backgroundColor: "rgba(75, 192, 192, 0.2)",
+        pointBackgroundColor: episodes.map(episode => (episode.truncated ? "rgb(255, 159, 64)" : "rgb(75, 192, 192)")),
+        tension: 0.1,
+      },
+      {
+        label: `Discounted Return (γ = ${discount})`,
+        data: episodes.map(episode => episode.discountedReturn),
+        borderColor: "rgb(153, 102, 255)",
+        borderDash: [6, 4],
+        pointRadius: 2,
+        tension: 0.1,
+      },
+      ...(comparison
+        ? [
+            {
+              label: compared("Return"),
+              data: alignCompared(comparedEpisodes.map(episode => episode.return)),
+              borderColor: "rgb(255, 99, 132)",
+              backgroundColor: "rgba(255, 99, 132, 0.2)",
+              pointBackgroundColor: alignCompared(comparedEpisodes.map(episode => (episode.truncated ? "rgb(255, 159, 64)" : "rgb(255, 99, 132)"))),
+              tension: 0.1,
+            },
+          ]
+        : []),
+    ],
+  }
+
+  const outcomeRateChartData = {
+    labels: episodeLabels,
+    datasets: [
+      {
+        label: named(`Goal Rate (last ${ROLLING_WINDOW})`),
+        data: rollingRate(episodes, episode => episode.terminated).map(rate => rate * 100),
+        borderColor: "rgb(54, 162, 235)",
+        backgroundColor: "rgba(54, 162, 235, 0.2)",
+        fill: true,
+        tension: 0.1,
+      },
+      {
+        label: named(`Timeout Rate (last ${ROLLING_WINDOW})`),
+        data: rollingRate(episodes, episode => episode.truncated).map(rate => rate * 100),
+        borderColor: "rgb(255, 159, 64)",
+        tension: 0.1,
+      },
+      ...(comparison
+        ? [
+            {
+              label: compared(`Goal Rate (last ${ROLLING_WINDOW})`),
+              data: alignCompared(rollingRate(comparedEpisodes, episode => episode.terminated).map(rate => rate * 100)),
+              borderColor: "rgb(255, 99, 132)",
+              tension: 0.1,
+            },
+            {
+              label: compared(`Timeout Rate (last ${ROLLING_WINDOW})`),
+              data: alignCompared(rollingRate(comparedEpisodes, episode => episode.truncated).map(rate => rate * 100)),
+              borderColor: "rgb(255, 99, 132)",
+              borderDash: [6, 4],
+              tension: 0.1,
+            },
+          ]
+        : []),
+    ],
+  }
+
+  // Bars per game with the moving average drawn over them.
+  const stepsChartData: ChartData<"bar" | "line", (number | null)[], string> = {
+    labels: episodeLabels,
+    datasets: [
+      {
+        type: "line",
+        label: named(`Average of last ${ROLLING_WINDOW}`),
+        data: movingAverage(episodes.map(episode => episode.length)),
+        borderColor: "rgb(255, 205, 86)",
+        pointRadius: 0,
+        tension: 0.1,
+      },
+      {
+        type: "bar",
+        label: named("Steps per Game"),
+        data: episodes.map(episode => episode.length),
+        backgroundColor: episodes.map(episode => (episode.truncated ? "rgba(120, 120, 120, 0.6)" : "rgba(255, 99, 132, 0.6)")),
         borderColor: 'rgba(255, 99, 132, 1)',
         borderWidth: 1,
       },
+      ...(comparison
+        ? [
+            {
+              type: "line" as const,
+              label: compared(`Average of last ${ROLLING_WINDOW}`),
+              data: alignCompared(movingAverage(comparedEpisodes.map(episode => episode.length))),
+              borderColor: "rgb(54, 162, 235)",
+              pointRadius: 0,
+              tension: 0.1,
+            },
+            {
+              type: "bar" as const,
+              label: compared("Steps per Game"),
+              data: alignCompared(comparedEpisodes.map(episode => episode.length)),
+              backgroundColor: alignCompared(comparedEpisodes.map(episode => (episode.truncated ? "rgba(120, 120, 120, 0.6)" : "rgba(54, 162, 235, 0.6)"))),
+              borderColor: "rgba(54, 162, 235, 1)",
+              borderWidth: 1,
+            },
+          ]
+        : []),
     ],
   }
 
-  const avgEpisodeLength =
-    stepsPerEpisode.length > 0
-      ? (stepsPerEpisode.reduce((a, b) => a + b, 0) / stepsPerEpisode.length).toFixed(1)
-      : "0"
+  // Each game is tagged with the policy that played it. Comparison datasets
+  // come after the first `primaryDatasets` of a chart.
+  const episodeTooltip = (primaryDatasets: number) => ({
+    callbacks: {
+      afterLabel: ({ dataIndex, datasetIndex }: TooltipItem<"bar" | "line">) => {
+        const episode = datasetIndex < primaryDatasets ? episodes[dataIndex] : comparedEpisodes[dataIndex - comparisonOffset]
+        return episode && `${episode.terminated ? "Won" : "Timed out"} · ${episode.collisions} collisions · seed ${episode.seed} · policy: ${episode.policyId}`
+      },
+    },
+  })
+
+  const evaluationSummary = evaluation?.summary
+  const lengthHistogramData = evaluationSummary && {
+    labels: evaluationSummary.lengthHistogram.map(({ from, to }) => (from === to ? `${from}` : `${from}–${to}`)),
+    datasets: [
+      {
+        label: "Episodes",
+        data: evaluationSummary.lengthHistogram.map(({ count }) => count),
+        backgroundColor: "rgba(54, 162, 235, 0.6)",
+        borderColor: "rgba(54, 162, 235, 1)",
+        borderWidth: 1,
+      },
+    ],
+  }
+  const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`
+
+  // Zero residuals cannot be drawn on a log scale, so they are left as gaps.
+  const residualChartData = planningResult && {
+    labels: planningResult.residuals.map((_, index) => `Sweep ${index + 1}`),
+    datasets: [
+      {
+        label: planningResult.method === "value_iteration" ? "Value Iteration" : "Policy Iteration",
+        data: planningResult.residuals.map(residual => (residual > 0 ? residual : null)),
+        borderColor: "rgb(153, 102, 255)",
+        backgroundColor: "rgba(153, 102, 255, 0.2)",
+        pointRadius: 0,
+        tension: 0.1,
+      },
+    ],
+  }
+
+  const avgEpisodeLength = mean(wins.map(episode => episode.length)).toFixed(1)
 
   return (
     <div className="absolute top-0 left-0 w-full h-full bg-black bg-opacity-80 flex items-center justify-center z-50 p-4 backdrop-blur-sm">
@@ -91,13 +554,25 @@ const Dashboard = ({ rewardHistory, stepsPerEpisode, onClose }) => {
           </button>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
           <InfoCard
             title="Games Won"
-            value={stepsPerEpisode.length}
-            description="The number of times the agent has reached the goal."
+            value={wins.length}
+            description={`Reached the goal in ${percentOf(wins.length)} of ${episodes.length} games.`}
             icon={Bot}
           />
+          <InfoCard
+            title="Timeouts"
+            value={timeouts}
+            description={`${percentOf(timeouts)} of games ran out of steps before the goal was reached.`}
+            icon={Pause}
+          />
+          <InfoCard
+            title="Average Return"
+            value={mean(episodes.map(episode => episode.return)).toFixed(2)}
+            description={`Reward per game. Discounted with γ = ${discount}: ${mean(episodes.map(episode => episode.discountedReturn)).toFixed(2)}.`}
+            icon={BarChart3}
+          />
           <InfoCard
             title="Average Steps"
             value={avgEpisodeLength}
@@ -105,20 +580,96 @@ const Dashboard = ({ rewardHistory, stepsPerEpisode, onClose }) => {
             icon={SkipForward}
           />
           <InfoCard
-            title="Total Score"
+            title="Current Game Score"
             value={(cumulativeReward.slice(-1)[0] || 0).toFixed(2)}
-            description="The agent's final score from all games combined."
+            description="Reward collected so far in the game in progress."
             icon={BarChart3}
           />
         </div>
 
+        {comparison && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <InfoCard
+              title="Compared: Games Won"
+              value={`${pairedWins.length} vs ${comparedWins.length}`}
+              description={`${policyId} against ${comparison.policyId} on the same ${comparedEpisodes.length} seeds.`}
+              icon={Bot}
+            />
+            <InfoCard
+              title="Compared: Return"
+              value={`${mean(pairedEpisodes.map(episode => episode.return)).toFixed(2)} vs ${mean(comparedEpisodes.map(episode => episode.return)).toFixed(2)}`}
+              description={`Average reward per game of ${policyId} and ${comparison.policyId}.`}
+              icon={BarChart3}
+            />
+            <InfoCard
+              title="Compared: Steps"
+              value={`${mean(pairedWins.map(episode => episode.length)).toFixed(1)} vs ${mean(comparedWins.map(episode => episode.length)).toFixed(1)}`}
+              description="Average moves needed to win a game, for each policy."
+              icon={SkipForward}
+            />
+          </div>
+        )}
+
+        {agentCount > 1 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {agentCumulativeRewards.map((rewards, id) => (
+              <InfoCard
+                key={id}
+                title={`Agent ${id}`}
+                value={(rewards.slice(-1)[0] || 0).toFixed(2)}
+                description={`Score this game. Reached its own goal in ${agentWins[id]} games.`}
+                icon={Bot}
+              />
+            ))}
+          </div>
+        )}
+
+        {evaluationSummary && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <InfoCard
+              title="Evaluation Return"
+              value={`${evaluationSummary.meanReturn.toFixed(2)} ± ${evaluationSummary.stdReturn.toFixed(2)}`}
+              description={`Mean ± std over ${evaluationSummary.episodes} headless games (seed ${evaluation.seed}). Median ${evaluationSummary.medianReturn.toFixed(2)}, discounted mean ${evaluationSummary.meanDiscountedReturn.toFixed(2)}.`}
+              icon={BarChart3}
+            />
+            <InfoCard
+              title="Evaluation Success"
+              value={percent(evaluationSummary.successRate)}
+              description={`95% confidence interval ${percent(evaluationSummary.successInterval[0])} – ${percent(evaluationSummary.successInterval[1])}.`}
+              icon={Bot}
+            />
+            <InfoCard
+              title="Evaluation Timeouts"
+              value={percent(evaluationSummary.timeoutRate)}
+              description={`Games that hit the step limit. Average length ${evaluationSummary.meanLength.toFixed(1)} steps.`}
+              icon={Pause}
+            />
+          </div>
+        )}
+
         <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-4 overflow-y-auto">
-          <ChartCard title="Score Over Time" description="This shows how the agent's score increased with each step. A steady upward climb is a sign of a good strategy!">
+          <ChartCard title="Score Over Time" description="This shows how the agent's score in the current game increased with each step. A steady upward climb is a sign of a good strategy!">
             <Line data={cumulativeRewardData} options={{ maintainAspectRatio: false, plugins: { legend: { labels: { color: 'white' } } }, scales: { x: { ticks: { color: 'white' } }, y: { ticks: { color: 'white' } } } }} />
           </ChartCard>
-          <ChartCard title="Game Length" description="This shows how many steps the agent took to win each game. Shorter bars mean the agent is getting more efficient!">
-            <Bar data={stepsChartData} options={{ maintainAspectRatio: false, plugins: { legend: { labels: { color: 'white' } } }, scales: { x: { ticks: { color: 'white' } }, y: { ticks: { color: 'white' } } } }} />
+          <ChartCard title="Return per Game" description="The total reward collected in each game, raw and discounted by the environment's γ. Orange points are games that timed out.">
+            <Line data={returnChartData} options={{ maintainAspectRatio: false, plugins: { legend: { labels: { color: 'white' } }, tooltip: episodeTooltip(2) }, scales: { x: { ticks: { color: 'white' } }, y: { ticks: { color: 'white' } } } }} />
+          </ChartCard>
+          <ChartCard title="Goal and Timeout Rates" description={`The share of the last ${ROLLING_WINDOW} games that reached the goal, and the share that ran out of steps.`}>
+            <Line data={outcomeRateChartData} options={{ maintainAspectRatio: false, plugins: { legend: { labels: { color: 'white' } }, tooltip: episodeTooltip(2) }, scales: { x: { ticks: { color: 'white' } }, y: { min: 0, max: 100, ticks: { color: 'white', callback: value => `${value}%` } } } }} />
           </ChartCard>
+          <ChartCard title="Game Length" description="How many steps each game took; grey bars timed out. The line averages the recent games, so a falling line means the agent is getting more efficient!">
+            <Chart type="bar" data={stepsChartData} options={{ maintainAspectRatio: false, plugins: { legend: { labels: { color: 'white' } }, tooltip: episodeTooltip(2) }, scales: { x: { ticks: { color: 'white' } }, y: { ticks: { color: 'white' } } } }} />
+          </ChartCard>
+          {lengthHistogramData && (
+            <ChartCard title="Evaluation Game Lengths" description={`How many steps each of the ${evaluationSummary.episodes} evaluation games took for policy ${evaluation.policyId}. Games at the step limit timed out.`}>
+              <Bar data={lengthHistogramData} options={{ maintainAspectRatio: false, plugins: { legend: { labels: { color: 'white' } } }, scales: { x: { ticks: { color: 'white' } }, y: { ticks: { color: 'white', precision: 0 } } } }} />
+            </ChartCard>
+          )}
+          {residualChartData && (
+            <ChartCard title="Planner Convergence" description="The Bellman residual (largest value change) after each sweep of the planner. It falls towards zero as the values settle on the optimal solution.">
+              <Line data={residualChartData} options={{ maintainAspectRatio: false, plugins: { legend: { labels: { color: 'white' } } }, scales: { x: { ticks: { color: 'white' } }, y: { type: 'logarithmic', ticks: { color: 'white' } } } }} />
+            </ChartCard>
+          )}
         </div>
       </div>
     </div>
@@ -131,34 +682,96 @@ const App = () => {
   const sceneRef = useRef(null)
   const rendererRef = useRef(null)
   const cameraRef = useRef(null)
+  const compareMountRef = useRef<HTMLDivElement | null>(null)
+  const compareSceneRef = useRef<THREE.Scene | null>(null)
+  const compareRendererRef = useRef<THREE.WebGLRenderer | null>(null)
+  const compareCameraRef = useRef<THREE.PerspectiveCamera | null>(null)
   const controlsRef = useRef(null)
   const animationRef = useRef({})
   const fileInputRef = useRef(null); // Ref for the file input
+  const environmentInputRef = useRef<HTMLInputElement | null>(null)
+  const envRef = useRef<MultiAgentGridEnv | null>(null)
+  const floorClickRef = useRef<((cell: [number, number]) => void) | null>(null)
+  const recordingRef = useRef<EpisodeRecording | null>(null)
+  const actionRandomRef = useRef<() => number>(Math.random)
+  // The comparison policy's own environment, played in lockstep with envRef.
+  const compareRunRef = useRef<{ env: MultiAgentGridEnv; recording: EpisodeRecording; random: () => number } | null>(null)
+  // Set while a remote policy's answer for the current step is awaited.
+  const policyRequestRef = useRef(false)
 
   const [isRunning, setIsRunning] = useState(false)
   const [currentStep, setCurrentStep] = useState(0)
   const [simulationSpeed, setSimulationSpeed] = useState(1)
   const [selectedEnvironment, setSelectedEnvironment] = useState("gridworld")
-  const [policy, setPolicy] = useState(null)
-  const [metrics, setMetrics] = useState({ totalReward: 0, steps: 0 })
+  const [policy, setPolicy] = useState<Policy | null>(null)
+  const [seed, setSeed] = useState(DEFAULT_SEED)
+  // Tags finished episodes with what played them.
+  const [policyId, setPolicyId] = useState("random")
+  const [comparePolicy, setComparePolicy] = useState<Policy | null>(null)
+  const [comparePolicyId, setComparePolicyId] = useState("")
+  const [compareEpisodes, setCompareEpisodes] = useState<EpisodeRecord[]>([])
+  const [compareReward, setCompareReward] = useState(0)
+  const [compareTrajectories, setCompareTrajectories] = useState<THREE.Vector3[][]>([])
+  const [showDisagreements, setShowDisagreements] = useState(true)
+  const [manualControl, setManualControl] = useState(false)
+  const [remoteAgent, setRemoteAgent] = useState(false)
+  const [remoteLatency, setRemoteLatency] = useState<RemoteLatency | null>(null)
+  const [metrics, setMetrics] = useState({ totalReward: 0, steps: 0, agentRewards: [0] })
   const [showQValues, setShowQValues] = useState(true)
+  const [valueOverlay, setValueOverlay] = useState<ValueOverlay>("off")
+  const [showValueLabels, setShowValueLabels] = useState(false)
+  const [visitation, setVisitation] = useState<VisitationLog>(() => createVisitationLog(0))
+  const [showVisitation, setShowVisitation] = useState(false)
+  const [normalizeVisitation, setNormalizeVisitation] = useState(false)
+  const [recentVisitationOnly, setRecentVisitationOnly] = useState(false)
+  const [visitationWindow, setVisitationWindow] = useState(10)
   const [showTrajectories, setShowTrajectories] = useState(true)
   const [showDashboard, setShowDashboard] = useState(false)
-  const [rewardHistory, setRewardHistory] = useState([])
-  const [stepsPerEpisode, setStepsPerEpisode] = useState([])
+  const [rewardHistory, setRewardHistory] = useState<number[][]>([])
+  const [episodes, setEpisodes] = useState<EpisodeRecord[]>([])
+  const [agentWins, setAgentWins] = useState<number[]>([0])
+  const [planningResult, setPlanningResult] = useState<PlanningResult | null>(null)
+  const [evaluation, setEvaluation] = useState<EvaluationResult | null>(null)
   const [currentEpisode, setCurrentEpisode] = useState(1)
-  const [trajectory, setTrajectory] = useState([])
+  const [trajectories, setTrajectories] = useState<THREE.Vector3[][]>([])
+  const [customEnvironments, setCustomEnvironments] = useState<Record<string, EnvironmentConfig>>({})
+  const [editorDraft, setEditorDraft] = useState<EnvironmentConfig | null>(null)
+  const [editorTool, setEditorTool] = useState<EditorTool>("obstacle")
+  const [editorTileReward, setEditorTileReward] = useState(DEFAULT_TILE_REWARD)
+  const [environmentImportErrors, setEnvironmentImportErrors] = useState<{ file: string; errors: string[] } | null>(null)
+  const [recordings, setRecordings] = useState<EpisodeRecording[]>([])
+  const [replay, setReplay] = useState<ReplayState | null>(null)
+  // Human-driven recordings of every environment; unlike `recordings` they
+  // survive resets and environment switches.
+  const [demonstrations, setDemonstrations] = useState<EpisodeRecording[]>([])
 
-  const environments = {
-    gridworld: { name: "Grid World", size: { x: 4, y: 4 }, obstacles: [[1, 1], [2, 2]], goals: [[3, 3]], start: [0, 0] },
-    maze: { name: "Maze Environment", size: { x: 6, y: 6 }, obstacles: [[1, 0], [1, 1], [1, 2], [3, 3], [3, 4], [4, 4]], goals: [[5, 5]], start: [0, 0] },
-    multiagent: { name: "Multi-Agent Arena", size: { x: 8, y: 8 }, obstacles: [[2, 2], [3, 3], [4, 4], [5, 5]], goals: [[0, 7], [7, 0]], start: [[0, 0], [7, 7]] },
-  }
+  const availableEnvironments = useMemo(() => ({ ...environments, ...customEnvironments }), [customEnvironments])
+  const committedEnvironment = availableEnvironments[selectedEnvironment] ?? environments.gridworld
+  // While the editor is open the draft is simulated in place of the selection.
+  const environment = editorDraft ?? committedEnvironment
+  const committedDynamics = useMemo(() => dynamicsKey(committedEnvironment), [committedEnvironment])
+  const shownDynamics = useMemo(() => dynamicsKey(environment), [environment])
+  const comparing = comparePolicy !== null
+  // Side by side, both value heatmaps share one colour scale.
+  const [policyValues, compareValues] = useMemo(() => {
+    const values = valueGrid(policy, environment)
+    const compared = valueGrid(comparePolicy, environment)
+    if (!values || !compared) return [values, compared]
+    const range = { min: Math.min(values.min, compared.min), max: Math.max(values.max, compared.max) }
+    return [{ ...values, ...range }, { ...compared, ...range }]
+  }, [policy, comparePolicy, environment])
+  const policyDiff = useMemo(() => (comparing ? comparePolicies(policy, comparePolicy, environment) : null), [comparing, policy, comparePolicy, environment])
+  const visitCounts = useMemo(
+    () => visitationCounts(visitation, { normalize: normalizeVisitation, lastEpisodes: recentVisitationOnly ? visitationWindow : null }),
+    [visitation, normalizeVisitation, recentVisitationOnly, visitationWindow]
+  )
+  const isEditing = editorDraft !== null
+  const environmentDemonstrations = useMemo(() => demonstrationsFor(demonstrations, environment), [demonstrations, environment])
+  const environmentRecordings = useMemo(() => recordingsFor(recordings, environment), [recordings, environment])
 
   const initializeScene = useCallback(() => {
     if (!mountRef.current) return
-    const scene = new THREE.Scene()
-    scene.background = new THREE.Color(0x1a1a2e)
+    const scene = createViewportScene()
     sceneRef.current = scene
 
     const camera = new THREE.PerspectiveCamera(75, mountRef.current.clientWidth / mountRef.current.clientHeight, 0.1, 1000)
@@ -179,16 +792,25 @@ const App = () => {
     controls.maxPolarAngle = Math.PI / 2 - 0.1
     controlsRef.current = controls
 
-    const ambientLight = new THREE.AmbientLight(0xcccccc, 0.6)
-    scene.add(ambientLight)
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8)
-    directionalLight.position.set(10, 15, 5)
-    directionalLight.castShadow = true
-    scene.add(directionalLight)
+    // A click (as opposed to an orbit drag) on the floor selects a grid cell.
+    const raycaster = new THREE.Raycaster()
+    let pointerDown: [number, number] | null = null
+    renderer.domElement.addEventListener("pointerdown", e => {
+      pointerDown = [e.clientX, e.clientY]
+    })
+    renderer.domElement.addEventListener("pointerup", e => {
+      if (!pointerDown || Math.hypot(e.clientX - pointerDown[0], e.clientY - pointerDown[1]) > 5) return
+      const rect = renderer.domElement.getBoundingClientRect()
+      const pointer = new THREE.Vector2(((e.clientX - rect.left) / rect.width) * 2 - 1, -((e.clientY - rect.top) / rect.height) * 2 + 1)
+      raycaster.setFromCamera(pointer, camera)
+      const floor = scene.getObjectByName("floor")
+      const hit = floor && raycaster.intersectObject(floor)[0]
+      if (hit) floorClickRef.current?.([Math.round(hit.point.x), Math.round(hit.point.z)])
+    })
   }, [])
 
   const createEnvironment = useCallback(
-    envType => {
+    (env: EnvironmentConfig, showGrid = false) => {
       const scene = sceneRef.current
       if (!scene) return
       const existingEnv = scene.getObjectByName("environment")
@@ -196,8 +818,7 @@ const App = () => {
 
       const envGroup = new THREE.Group()
       envGroup.name = "environment"
-      const env = environments[envType]
-      const { size, obstacles, goals } = env
+      const { size, obstacles, goals, slippery = [], rewardTiles = [] } = env
       const centerOffset = { x: size.x / 2 - 0.5, z: size.y / 2 - 0.5 }
       if (controlsRef.current) {
         controlsRef.current.target.set(centerOffset.x, 0, centerOffset.z)
@@ -207,26 +828,58 @@ const App = () => {
       floor.rotation.x = -Math.PI / 2
       floor.position.set(centerOffset.x, 0, centerOffset.z)
       floor.receiveShadow = true
+      floor.name = "floor"
       envGroup.add(floor)
 
+      if (showGrid) {
+        const points = []
+        for (let x = 0; x <= size.x; x++) points.push(new THREE.Vector3(x - 0.5, 0.01, -0.5), new THREE.Vector3(x - 0.5, 0.01, size.y - 0.5))
+        for (let y = 0; y <= size.y; y++) points.push(new THREE.Vector3(-0.5, 0.01, y - 0.5), new THREE.Vector3(size.x - 0.5, 0.01, y - 0.5))
+        envGroup.add(new THREE.LineSegments(new THREE.BufferGeometry().setFromPoints(points), new THREE.LineBasicMaterial({ color: 0x6366f1 })))
+      }
+
       obstacles.forEach(([x, y]) => {
         const obstacle = new THREE.Mesh(new THREE.BoxGeometry(0.8, 1, 0.8), new THREE.MeshStandardMaterial({ color: 0xff4444, roughness: 0.5 }))
         obstacle.position.set(x, 0.5, y)
         obstacle.castShadow = true
         envGroup.add(obstacle)
       })
+      // Slippery tiles are glossy pale-blue ice, just above the floor.
+      slippery.forEach(([x, y]) => {
+        const ice = new THREE.Mesh(new THREE.PlaneGeometry(0.96, 0.96), new THREE.MeshStandardMaterial({ color: 0x9fd8ff, roughness: 0.05, metalness: 0.3, transparent: true, opacity: 0.7 }))
+        ice.rotation.x = -Math.PI / 2
+        ice.position.set(x, 0.003, y)
+        envGroup.add(ice)
+      })
+      // Floor reward tiles glow: orange lava for penalties, gold for bonuses.
+      // Tiles on goals only change the goal's reward and are not drawn.
+      rewardTiles.forEach(({ position: [x, y], reward }) => {
+        if (isGoal(env, [x, y]) || reward === 0) return
+        const color = reward < 0 ? 0xff5522 : 0xffd700
+        const tile = new THREE.Mesh(new THREE.PlaneGeometry(0.9, 0.9), new THREE.MeshStandardMaterial({ color, emissive: color, emissiveIntensity: 0.4, transparent: true, opacity: 0.75 }))
+        tile.rotation.x = -Math.PI / 2
+        tile.position.set(x, 0.003, y)
+        envGroup.add(tile)
+      })
       goals.forEach(([x, y]) => {
         const goal = new THREE.Mesh(new THREE.CylinderGeometry(0.3, 0.3, 0.1, 16), new THREE.MeshStandardMaterial({ color: 0x44ff44, emissive: 0x44ff44, emissiveIntensity: 0.5 }))
         goal.position.set(x, 0.05, y)
         envGroup.add(goal)
       })
       scene.add(envGroup)
+      // The comparison viewport gets a clone, which shares the geometry and materials.
+      const compareScene = compareSceneRef.current
+      if (compareScene) {
+        const existingCompareEnv = compareScene.getObjectByName("environment")
+        if (existingCompareEnv) compareScene.remove(existingCompareEnv)
+        compareScene.add(envGroup.clone())
+      }
     },
-    [environments]
+    []
   )
 
-  const createAgent = useCallback((position, id = 0) => {
-    const agent = new THREE.Mesh(new THREE.SphereGeometry(0.2, 16, 16), new THREE.MeshStandardMaterial({ color: id === 0 ? 0x4488ff : 0xff44ff, roughness: 0.3 }))
+  const createAgent = useCallback((position: Position, id = 0) => {
+    const agent = new THREE.Mesh(new THREE.SphereGeometry(0.2, 16, 16), new THREE.MeshStandardMaterial({ color: AGENT_COLORS[id % AGENT_COLORS.length], roughness: 0.3 }))
     agent.position.set(position[0], 0.2, position[1])
     agent.castShadow = true
     agent.name = `agent_${id}`
@@ -234,197 +887,562 @@ const App = () => {
   }, [])
 
   const createQValueVisualization = useCallback(() => {
-    const scene = sceneRef.current
-    if (!scene) return
-    const existingQViz = scene.getObjectByName("qvalues")
-    if (existingQViz) scene.remove(existingQViz)
-    if (!policy || !showQValues || policy.type !== "q_table") return
-
-    const qGroup = new THREE.Group()
-    qGroup.name = "qvalues"
-    const { size } = environments[selectedEnvironment]
-    for (let x = 0; x < size.x; x++) {
-      for (let y = 0; y < size.y; y++) {
-        const stateIndex = y * size.x + x
-        const qValues = policy.values[stateIndex]
-        if (qValues) {
-          const maxQ = Math.max(...qValues)
-          const bestActionIndex = qValues.indexOf(maxQ)
-          const arrow = new THREE.Mesh(new THREE.ConeGeometry(0.08, 0.25, 8), new THREE.MeshBasicMaterial({ color: 0x00ff00, transparent: true, opacity: 0.8 }))
-          const offsets = [[0, 0.2, -0.2], [0, 0.2, 0.2], [-0.2, 0.2, 0], [0.2, 0.2, 0]]
-          const rotations = [0, Math.PI, -Math.PI / 2, Math.PI / 2]
-          arrow.position.set(x + offsets[bestActionIndex][0], offsets[bestActionIndex][1], y + offsets[bestActionIndex][2])
-          arrow.rotation.z = rotations[bestActionIndex]
-          qGroup.add(arrow)
+    const showPolicy = (scene: THREE.Scene | null, viewPolicy: Policy | null, values: ValueGrid | null) => {
+      if (!scene) return
+      const existingQViz = scene.getObjectByName("qvalues")
+      if (existingQViz) {
+        scene.remove(existingQViz)
+        disposeObjectTree(existingQViz)
+      }
+      if (!viewPolicy) return
+
+      const qGroup = new THREE.Group()
+      qGroup.name = "qvalues"
+      const { size } = environment
+      const overlay = values && valueOverlay !== "off" && createValueOverlay(values, size, valueOverlay, showValueLabels)
+      if (overlay) qGroup.add(overlay)
+      if (showQValues) for (let x = 0; x < size.x; x++) {
+        for (let y = 0; y < size.y; y++) {
+          const stateIndex = toStateIndex(environment, [x, y])
+          const qValues = actionValues(viewPolicy, environment, stateIndex)
+          if (qValues) qGroup.add(createActionArrow(greedyAction(qValues), [x, y]))
+          // Stochastic policies show every action, sized and faded by its probability.
+          actionProbabilities(viewPolicy, environment, stateIndex)?.forEach((probability, action) => {
+            if (probability < 0.01) return
+            qGroup.add(createActionArrow(action, [x, y], { scale: 0.3 + probability, opacity: 0.15 + 0.85 * probability }))
+          })
         }
       }
+      scene.add(qGroup)
     }
-    scene.add(qGroup)
-  }, [policy, selectedEnvironment, showQValues, environments])
+    showPolicy(sceneRef.current, policy, policyValues)
+    showPolicy(compareSceneRef.current, comparePolicy, compareValues)
+  }, [policy, comparePolicy, environment, showQValues, policyValues, compareValues, valueOverlay, showValueLabels])
+
+  // Moves the episode in progress into the replay list, unless nothing happened.
+  const archiveRecording = useCallback(() => {
+    const recording = recordingRef.current
+    recordingRef.current = null
+    if (!recording || recording.steps.length === 0) return
+    setRecordings(prev => [...prev, recording].slice(-MAX_RECORDINGS))
+    if (isDemonstration(recording)) setDemonstrations(prev => [...prev, recording])
+    setVisitation(prev => addEpisodeVisits(prev, episodeVisits(recording)))
+  }, [])
 
-  const initializeSimulation = useCallback(() => {
+  // Every episode gets its own seed derived from the session seed and its
+  // number, so any single episode can be reproduced from the two.
+  // In manual mode agent 0 follows the keyboard; any other agents keep
+  // following the policy. `startStates` overrides the start cells for a
+  // remote agent's episode.
+  const initializeSimulation = useCallback((episode: number = currentEpisode, manual: boolean = manualControl, startStates?: number[]) => {
     setIsRunning(false)
+    archiveRecording()
     const scene = sceneRef.current
     if (!scene) return
-    scene.children.filter(c => c.name?.startsWith("agent_") || c.name === "trajectory_line" || c.name === "qvalues").forEach(obj => scene.remove(obj))
-    createEnvironment(selectedEnvironment)
-    const envConfig = environments[selectedEnvironment]
-    const startPositions = Array.isArray(envConfig.start[0]) ? envConfig.start : [envConfig.start]
-    startPositions.forEach((position, index) => {
-      const agent = createAgent(position, index)
-      scene.add(agent)
-      if (index === 0) setTrajectory([new THREE.Vector3(position[0], 0.2, position[1])])
-    })
+    clearEpisodeObjects(scene)
+    createEnvironment(environment, isEditing)
+    const envConfig = environment
+    const env = new MultiAgentGridEnv(envConfig)
+    const episodeSeed = deriveSeed(seed, episode)
+    const { observations } = env.reset(episodeSeed)
+    envRef.current = env
+    actionRandomRef.current = createRandom(deriveSeed(episodeSeed, ACTION_STREAM))
+    recordingRef.current = createRecording(episode, envConfig, startStates ?? observations, episodeSeed, manual ? [0] : [])
+    const starts = startStates ? startStates.map(state => fromStateIndex(envConfig, state)) : startPositions(envConfig)
+    starts.forEach((position, index) => scene.add(createAgent(position, index)))
+    setTrajectories(starts.map(([x, y]) => [new THREE.Vector3(x, 0.2, y)]))
+    // The comparison starts from the same seed and draws actions from an
+    // identical stream, so any difference between the two comes from the policies.
+    const compareScene = compareSceneRef.current
+    compareRunRef.current = null
+    if (compareScene && comparePolicy) {
+      clearEpisodeObjects(compareScene)
+      const compareEnv = new MultiAgentGridEnv(envConfig)
+      const compareStart = compareEnv.reset(episodeSeed)
+      compareRunRef.current = {
+        env: compareEnv,
+        recording: createRecording(episode, envConfig, compareStart.observations, episodeSeed),
+        random: createRandom(deriveSeed(episodeSeed, ACTION_STREAM)),
+      }
+      starts.forEach((position, index) => compareScene.add(createAgent(position, index)))
+      setCompareTrajectories(starts.map(([x, y]) => [new THREE.Vector3(x, 0.2, y)]))
+      setCompareReward(0)
+    }
     setCurrentStep(0)
-    setMetrics({ totalReward: 0, steps: 0 })
+    setMetrics({ totalReward: 0, steps: 0, agentRewards: starts.map(() => 0) })
     setRewardHistory([])
     createQValueVisualization()
-  }, [selectedEnvironment, createEnvironment, createAgent, createQValueVisualization, environments])
+  }, [environment, isEditing, seed, currentEpisode, manualControl, comparePolicy, archiveRecording, createEnvironment, createAgent, createQValueVisualization])
 
-  const simulationStep = useCallback(() => {
+  // `humanAction` is the key pressed in manual mode. A remote policy is asked
+  // for its actions first; the loop does not start another step while one is
+  // waiting for the server, and an answer that arrives after a reset is dropped.
+  const simulationStep = useCallback(async (humanAction?: number) => {
+    const env = envRef.current
     const scene = sceneRef.current
-    const agentMesh = scene.getObjectByName("agent_0")
-    const envConfig = environments[selectedEnvironment]
-    if (!agentMesh) return
-
-    let actionIndex
-    if (policy) {
-        const currentState = [Math.round(agentMesh.position.x), Math.round(agentMesh.position.z)]
-        const stateIndex = currentState[1] * envConfig.size.x + currentState[0]
-        const qValues = policy.values[stateIndex]
-        actionIndex = qValues ? qValues.indexOf(Math.max(...qValues)) : Math.floor(Math.random() * 4)
-    } else {
-        actionIndex = Math.floor(Math.random() * 4)
-    }
+    const recording = recordingRef.current
+    const compare = compareRunRef.current
+    if (!env || !scene || !recording) return
+    if (env.done && (!compare || compare.env.done)) return
 
-
-    const actions = [[0, -1], [0, 1], [-1, 0], [1, 0]]
-    const [dx, dz] = actions[actionIndex]
-    const newX = Math.max(0, Math.min(envConfig.size.x - 1, Math.round(agentMesh.position.x) + dx))
-    const newZ = Math.max(0, Math.min(envConfig.size.y - 1, Math.round(agentMesh.position.z) + dz))
-    const isObstacle = envConfig.obstacles.some(obs => obs[0] === newX && obs[1] === newZ)
-    const goalReached = envConfig.goals.some(g => g[0] === newX && g[1] === newZ)
-    let reward = -0.01 // Cost of living
-
-    if (isObstacle) {
-      reward = -1.0
-    } else {
-      agentMesh.position.x = newX
-      agentMesh.position.z = newZ
-      setTrajectory(prev => [...prev, new THREE.Vector3(newX, 0.2, newZ)])
+    let decisions: (RemoteDecision | null)[] = []
+    if (policy?.type === "remote" && !env.done) {
+      if (policyRequestRef.current) return
+      policyRequestRef.current = true
+      try {
+        const answer = await requestDecisions(policy, env, recording.episode, humanAction !== undefined ? recording.humanAgents : [])
+        decisions = answer.decisions
+        setRemoteLatency(prev => addLatency(prev, answer.timing))
+      } catch (error) {
+        setIsRunning(false)
+        toast({ variant: "destructive", title: "Remote policy failed", description: (error as Error).message })
+        return
+      } finally {
+        policyRequestRef.current = false
+      }
+      if (envRef.current !== env || env.done) return
     }
-    if (goalReached) reward = 10.0
 
-    setMetrics(prev => ({ steps: prev.steps + 1, totalReward: prev.totalReward + reward }))
-    setRewardHistory(prev => [...prev, reward])
-    setCurrentStep(prev => prev + 1)
+    // In lockstep the episode lasts until both policies are done; whichever
+    // finishes first waits for the other.
+    if (!env.done) {
+      const { rewards, terminated } = stepViewport(scene, env, policy, recording, actionRandomRef.current, setTrajectories, humanAction, decisions)
+      const stepReward = rewards.reduce((a, b) => a + b, 0)
+      setMetrics(prev => ({
+        steps: env.steps,
+        totalReward: prev.totalReward + stepReward,
+        agentRewards: prev.agentRewards.map((total, id) => total + rewards[id]),
+      }))
+      setRewardHistory(prev => [...prev, rewards])
+      setCurrentStep(env.steps)
+      if (terminated.some(Boolean)) setAgentWins(prev => prev.map((wins, id) => wins + (terminated[id] ? 1 : 0)))
+    }
+    if (compare && !compare.env.done) {
+      const { rewards } = stepViewport(compareSceneRef.current, compare.env, comparePolicy, compare.recording, compare.random, setCompareTrajectories)
+      setCompareReward(prev => prev + rewards.reduce((a, b) => a + b, 0))
+    }
 
-    if (goalReached || metrics.steps >= 100) {
-      if (goalReached) setStepsPerEpisode(prev => [...prev, metrics.steps + 1])
+    if (env.done && (!compare || compare.env.done)) {
+      const success = recording.terminated
+      archiveRecording()
+      setEpisodes(prev => [...prev, episodeRecord(recording, recording.humanAgents.length > 0 ? HUMAN_POLICY_ID : policyId)])
+      if (compare) setCompareEpisodes(prev => [...prev, episodeRecord(compare.recording, comparePolicyId)])
       setIsRunning(false)
+      const nextEpisode = currentEpisode + 1
       setTimeout(() => {
-        setCurrentEpisode(e => e + 1)
-        initializeSimulation()
-        if (goalReached && policy) setIsRunning(true) // Continue if it was successful with a policy
+        setCurrentEpisode(nextEpisode)
+        initializeSimulation(nextEpisode)
+        if (manualControl || (success && policy)) setIsRunning(true) // Continue if it was successful with a policy, or keep taking keys
       }, 500)
     }
-  }, [policy, selectedEnvironment, metrics.steps, initializeSimulation, environments])
+  }, [policy, policyId, comparePolicy, comparePolicyId, manualControl, currentEpisode, initializeSimulation, archiveRecording])
+
+  const advanceReplay = useCallback(() => {
+    setReplay(prev => {
+      if (!prev) return prev
+      const lastFrame = frameCount(recordings[prev.recording]) - 1
+      return prev.frame >= lastFrame ? { ...prev, playing: false } : { ...prev, frame: prev.frame + 1 }
+    })
+  }, [recordings])
+
+  // The render loop is started once and reads the latest run state from
+  // animationRef, so re-renders never restart it or rebuild the scene.
+  // During a replay it drives the replay frames instead of the environment.
+  useEffect(() => {
+    Object.assign(
+      animationRef.current,
+      replay
+        ? { isRunning: replay.playing, simulationSpeed, simulationStep: advanceReplay }
+        : { isRunning: isRunning && !manualControl, simulationSpeed, simulationStep }
+    )
+  }, [isRunning, manualControl, simulationSpeed, simulationStep, replay, advanceReplay])
+
+  // Replays only move the meshes and trajectories; the live environment is
+  // left alone and restarted when the replay is closed.
+  useEffect(() => {
+    const recording = replay && recordings[replay.recording]
+    const scene = sceneRef.current
+    if (!recording || !scene) return
+    positionsAtFrame(recording, replay.frame).forEach(([x, y], id) => {
+      const agentMesh = scene.getObjectByName(`agent_${id}`)
+      if (agentMesh) {
+        agentMesh.position.x = x
+        agentMesh.position.z = y
+      }
+    })
+    setTrajectories(trajectoriesUntil(recording, replay.frame).map(path => path.map(([x, y]) => new THREE.Vector3(x, 0.2, y))))
+  }, [replay, recordings])
+
+  const handleReplayChange = (next: ReplayState | null) => {
+    if (next && !replay) setIsRunning(false)
+    setReplay(next)
+    if (!next && replay) initializeSimulation()
+  }
 
   const animate = useCallback(() => {
-    animationRef.current.id = requestAnimationFrame(animate)
-    if (isRunning) {
+    const loop = animationRef.current
+    loop.id = requestAnimationFrame(animate)
+    if (loop.isRunning) {
       const now = Date.now()
-      const stepInterval = 1000 / simulationSpeed
-      if (!animationRef.current.lastStep || now - animationRef.current.lastStep > stepInterval) {
-        simulationStep()
-        animationRef.current.lastStep = now
+      const stepInterval = 1000 / loop.simulationSpeed
+      if (!loop.lastStep || now - loop.lastStep > stepInterval) {
+        loop.simulationStep()
+        loop.lastStep = now
       }
     }
     if (controlsRef.current) controlsRef.current.update()
     if (rendererRef.current && sceneRef.current && cameraRef.current) {
       rendererRef.current.render(sceneRef.current, cameraRef.current)
     }
-  }, [isRunning, simulationSpeed, simulationStep])
+    // The comparison camera follows the main one, so both are seen from the same angle.
+    const compareCamera = compareCameraRef.current
+    if (compareRendererRef.current && compareSceneRef.current && compareCamera && cameraRef.current) {
+      compareCamera.position.copy(cameraRef.current.position)
+      compareCamera.quaternion.copy(cameraRef.current.quaternion)
+      compareRendererRef.current.render(compareSceneRef.current, compareCamera)
+    }
+  }, [])
 
   const handleHardReset = useCallback(() => {
     setPolicy(null)
+    setPolicyId("random")
+    setComparePolicy(null)
+    setComparePolicyId("")
+    setPlanningResult(null)
     setCurrentEpisode(1)
-    setStepsPerEpisode([])
-    initializeSimulation()
-  }, [initializeSimulation])
+    setEpisodes([])
+    setCompareEpisodes([])
+    setAgentWins(startPositions(environment).map(() => 0))
+    recordingRef.current = null
+    setRecordings([])
+    setVisitation(createVisitationLog(environment.size.x * environment.size.y))
+    setReplay(null)
+    initializeSimulation(1)
+  }, [environment, initializeSimulation])
+
+  useEffect(() => {
+    setRemoteLatency(null)
+  }, [policy])
 
   const handleClearPolicy = () => {
     setPolicy(null);
+    setPolicyId("random")
     initializeSimulation();
   }
 
   useEffect(() => {
     initializeScene()
-    handleHardReset() // Initial setup
-    
-    const animationId = requestAnimationFrame(animate);
+    animate()
 
     return () => {
-      cancelAnimationFrame(animationId)
+      cancelAnimationFrame(animationRef.current.id)
       if (rendererRef.current) rendererRef.current.dispose()
       if (mountRef.current) mountRef.current.innerHTML = ""
     }
-  }, [initializeScene, animate, handleHardReset])
+  }, [initializeScene, animate])
 
+  // Policies and statistics belong to the committed environment and are only
+  // wiped when its dynamics change. Editing a draft, or leaving the editor,
+  // just restarts the episode on what is shown; renaming does neither.
+  const resetDynamicsRef = useRef<string | null>(null)
   useEffect(() => {
-    handleHardReset()
-  }, [selectedEnvironment])
+    if (resetDynamicsRef.current !== committedDynamics) {
+      resetDynamicsRef.current = committedDynamics
+      handleHardReset()
+    } else {
+      initializeSimulation()
+    }
+  }, [committedDynamics, shownDynamics, isEditing])
 
+  // Counts for one grid size mean nothing on another, so resizing the shown
+  // grid, in the editor too, starts the log over.
   useEffect(() => {
-    createQValueVisualization()
-  }, [policy, showQValues, createQValueVisualization])
+    setVisitation(createVisitationLog(environment.size.x * environment.size.y))
+  }, [environment.size.x, environment.size.y])
 
   useEffect(() => {
     const scene = sceneRef.current
     if (!scene) return
-    const oldLine = scene.getObjectByName("trajectory_line")
-    if (oldLine) scene.remove(oldLine)
-    if (showTrajectories && trajectory.length > 1) {
-      const line = new THREE.Line(new THREE.BufferGeometry().setFromPoints(trajectory), new THREE.LineBasicMaterial({ color: 0xffff00 }))
-      line.name = "trajectory_line"
-      scene.add(line)
+    const existing = scene.getObjectByName("visitation")
+    if (existing) {
+      scene.remove(existing)
+      disposeFloorOverlay(existing)
+    }
+    // The log is replaced on every reset, so a count list for another grid size is stale.
+    if (!showVisitation || visitCounts.length !== environment.size.x * environment.size.y) return
+    const overlay = createVisitationOverlay(visitCounts, environment.size)
+    if (overlay) scene.add(overlay)
+  }, [showVisitation, visitCounts, environment])
+
+  useEffect(() => {
+    setCustomEnvironments(loadCustomEnvironments())
+  }, [])
+
+  useEffect(() => {
+    floorClickRef.current = cell => setEditorDraft(draft => (draft ? applyEditorTool(draft, editorTool, cell, editorTileReward) : draft))
+  }, [editorTool, editorTileReward])
+
+  const handleEditEnvironment = () => {
+    setIsRunning(false)
+    const name = isCustomEnvironmentKey(selectedEnvironment) ? environment.name : `${environment.name} (Custom)`
+    setEditorDraft({ ...environment, name })
+  }
+
+  const handleSaveEnvironment = () => {
+    if (!editorDraft) return
+    addCustomEnvironment({ ...editorDraft, name: editorDraft.name.trim() })
+    setEditorDraft(null)
+  }
+
+  const handleDeleteEnvironment = () => {
+    if (!isCustomEnvironmentKey(selectedEnvironment)) return
+    const { [selectedEnvironment]: _removed, ...rest } = customEnvironments
+    saveCustomEnvironments(rest)
+    setCustomEnvironments(rest)
+    setSelectedEnvironment("gridworld")
+  }
+
+  useEffect(() => {
+    createQValueVisualization()
+  }, [policy, createQValueVisualization])
+
+  useEffect(() => {
+    drawTrajectories(sceneRef.current, showTrajectories ? trajectories : [])
+  }, [trajectories, showTrajectories])
+
+  useEffect(() => {
+    drawTrajectories(compareSceneRef.current, showTrajectories ? compareTrajectories : [])
+  }, [compareTrajectories, showTrajectories])
+
+  const resizeViewports = useCallback(() => {
+    resizeViewport(mountRef.current, rendererRef.current, cameraRef.current)
+    resizeViewport(compareMountRef.current, compareRendererRef.current, compareCameraRef.current)
+  }, [])
+
+  useEffect(() => {
+    window.addEventListener("resize", resizeViewports)
+    return () => window.removeEventListener("resize", resizeViewports)
+  }, [resizeViewports])
+
+  // Loading a comparison policy splits the view: the second viewport gets its
+  // own scene and renderer next to the main one.
+  useEffect(() => {
+    const mount = compareMountRef.current
+    if (!comparing || !mount) return
+    const camera = new THREE.PerspectiveCamera(75, mount.clientWidth / mount.clientHeight, 0.1, 1000)
+    const renderer = new THREE.WebGLRenderer({ antialias: true })
+    renderer.setSize(mount.clientWidth, mount.clientHeight)
+    renderer.shadowMap.enabled = true
+    mount.appendChild(renderer.domElement)
+    compareSceneRef.current = createViewportScene()
+    compareCameraRef.current = camera
+    compareRendererRef.current = renderer
+    resizeViewports()
+    return () => {
+      compareSceneRef.current = null
+      compareCameraRef.current = null
+      compareRendererRef.current = null
+      compareRunRef.current = null
+      renderer.dispose()
+      mount.innerHTML = ""
+      resizeViewports()
     }
-  }, [trajectory, showTrajectories])
+  }, [comparing, resizeViewports])
 
+  // In manual mode "running" means taking keys instead of stepping on a timer.
+  // Keys are ignored while typing into a field. Holding a key down does not
+  // repeat the move.
   useEffect(() => {
-    const handleResize = () => {
-      if (mountRef.current && rendererRef.current && cameraRef.current) {
-        const { clientWidth: width, clientHeight: height } = mountRef.current
-        cameraRef.current.aspect = width / height
-        cameraRef.current.updateProjectionMatrix()
-        rendererRef.current.setSize(width, height)
+    if (!manualControl || !isRunning) return
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement
+      if (event.repeat || ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName)) return
+      const action = keyAction(event.key)
+      if (action === null) return
+      event.preventDefault()
+      simulationStep(action)
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [manualControl, isRunning, simulationStep])
+
+  // Switching between keyboard and policy control starts a new episode, so
+  // every recording has a single controller.
+  const handleManualControlChange = (manual: boolean) => {
+    setManualControl(manual)
+    initializeSimulation(currentEpisode, manual)
+    if (manual && !replay) setIsRunning(true)
+  }
+
+  // A remote agent replaces the local policy: the view starts a fresh episode
+  // and its arrows show the Q-values the agent reports. Disconnecting drops
+  // that Q-table again, so later local games are not credited to the agent.
+  const handleRemoteAgentChange = (remote: boolean) => {
+    setRemoteAgent(remote)
+    setIsRunning(false)
+    setPolicy(null)
+    setPolicyId(remote ? REMOTE_POLICY_ID : "random")
+    if (remote) {
+      setManualControl(false)
+      setReplay(null)
+    }
+    initializeSimulation(currentEpisode, false)
+  }
+
+  // Remote steps move the meshes to the reported cells; the local engine is
+  // not stepped, so the view shows exactly what the remote agent saw.
+  const handleRemoteMessage = (message: RemoteAgentMessage): string[] => {
+    const errors = remoteMessageErrors(message, environment)
+    if (errors.length > 0) return errors
+    if (message.type === "reset") {
+      const episode = message.episode ?? (recordingRef.current?.steps.length ? currentEpisode + 1 : currentEpisode)
+      setCurrentEpisode(episode)
+      initializeSimulation(episode, false, message.observations)
+      return []
+    }
+    const scene = sceneRef.current as THREE.Scene | null
+    const recording = recordingRef.current
+    if (!scene || !recording) return ["step: the episode has finished; waiting for a reset message"]
+    const { states, rewards, nextStates } = recordRemoteStep(recording, message)
+    const positions = nextStates.map(state => fromStateIndex(environment, state))
+    positions.forEach(([x, y], id) => {
+      const agentMesh = scene.getObjectByName(`agent_${id}`)
+      if (agentMesh) {
+        agentMesh.position.x = x
+        agentMesh.position.z = y
       }
+    })
+    setTrajectories(prev =>
+      prev.map((points, id) => (nextStates[id] === states[id] ? points : [...points, new THREE.Vector3(positions[id][0], 0.2, positions[id][1])]))
+    )
+    setMetrics(prev => ({
+      steps: recording.steps.length,
+      totalReward: prev.totalReward + rewards.reduce((a, b) => a + b, 0),
+      agentRewards: prev.agentRewards.map((total, id) => total + rewards[id]),
+    }))
+    setRewardHistory(prev => [...prev, rewards])
+    setCurrentStep(recording.steps.length)
+    const { qValues } = message
+    if (qValues) setPolicy(prev => withRemoteQValues(prev, environment, states, qValues))
+    if (recording.finished) {
+      archiveRecording()
+      setEpisodes(prev => [...prev, episodeRecord(recording, REMOTE_POLICY_ID)])
     }
-    window.addEventListener("resize", handleResize)
-    return () => window.removeEventListener("resize", handleResize)
-  }, [])
+    return []
+  }
+
+  // A new comparison policy restarts the episode so both start together.
+  useEffect(() => {
+    if (comparePolicy) initializeSimulation()
+  }, [comparePolicy])
 
-  const handleFileUpload = event => {
-    const file = event.target.files[0]
+  useEffect(() => {
+    const scenes = [sceneRef.current, compareSceneRef.current]
+    scenes.forEach(scene => {
+      const existing = scene?.getObjectByName("disagreement")
+      if (scene && existing) scene.remove(existing)
+    })
+    if (!policyDiff || !showDisagreements) return
+    const overlay = createDisagreementOverlay(policyDiff.disagreements, environment.size)
+    if (!overlay) return
+    sceneRef.current?.add(overlay)
+    compareSceneRef.current?.add(overlay.clone())
+    return () => disposeFloorOverlay(overlay)
+  }, [policyDiff, showDisagreements, environment, comparing])
+
+  const addCustomEnvironment = (config: EnvironmentConfig) => {
+    const key = customEnvironmentKey(config.name)
+    const next = { ...customEnvironments, [key]: config }
+    saveCustomEnvironments(next)
+    setCustomEnvironments(next)
+    setSelectedEnvironment(key)
+  }
+
+  const handleEnvironmentImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
     if (!file) return
     const reader = new FileReader()
-    reader.onload = e => {
+    reader.onload = () => {
+      let json: unknown
       try {
-        const uploadedPolicy = JSON.parse(e.target.result as string)
-        if (uploadedPolicy.type && Array.isArray(uploadedPolicy.values)) {
-          setPolicy(uploadedPolicy)
-          initializeSimulation() // Reset the simulation with the new policy
-        } else {
-          console.error("Invalid policy file format.")
-        }
+        json = JSON.parse(reader.result as string)
       } catch (error) {
-        console.error("Error parsing policy file:", error)
+        setEnvironmentImportErrors({ file: file.name, errors: [`Not valid JSON: ${(error as Error).message}`] })
+        return
+      }
+      const result = parseEnvironmentFile(json)
+      if (result.success) {
+        setEnvironmentImportErrors(null)
+        addCustomEnvironment(result.data)
+      } else {
+        setEnvironmentImportErrors({ file: file.name, errors: result.errors })
       }
     }
     reader.readAsText(file)
-    if(fileInputRef.current) {
-        fileInputRef.current.value = ""; // Reset file input
+    event.target.value = ""
+  }
+
+  const handleEnvironmentExport = () => {
+    const filename = `${customEnvironmentKey(environment.name).replace(/^custom_/, "")}.json`
+    downloadFile(filename, JSON.stringify(toEnvironmentFile(environment), null, 2))
+  }
+
+  // Reads and validates an uploaded policy; problems are reported in a toast.
+  const readPolicyFile = (event: React.ChangeEvent<HTMLInputElement>, onLoaded: (loaded: Policy, file: File) => void) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+    const reader = new FileReader()
+    reader.onload = () => {
+      let json: unknown
+      try {
+        json = JSON.parse(reader.result as string)
+      } catch (error) {
+        toast({ variant: "destructive", title: `Could not read ${file.name}`, description: `Not valid JSON: ${(error as Error).message}` })
+        return
+      }
+      const result = parsePolicy(json, environment)
+      if (!result.success) {
+        toast({ variant: "destructive", title: `Invalid policy in ${file.name}`, description: <IssueList errors={result.errors} /> })
+        return
+      }
+      onLoaded(result.data, file)
+      toast({ title: "Policy loaded", description: `${file.name} matches ${environment.name}.` })
     }
+    reader.readAsText(file)
+    event.target.value = "" // Reset file input
+  }
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) =>
+    readPolicyFile(event, (loaded, file) => {
+      setPolicy(loaded)
+      setPolicyId(file.name)
+      initializeSimulation() // Reset the simulation with the new policy
+    })
+
+  const handleRemotePolicy = (remote: RemotePolicy) => {
+    setPolicy(remote)
+    setPolicyId(remote.endpoint)
+    initializeSimulation()
+  }
+
+  // Earlier comparison games were played by another policy, so they are dropped.
+  // The compared run steps without waiting, so it cannot query a server.
+  const handleCompareUpload = (event: React.ChangeEvent<HTMLInputElement>) =>
+    readPolicyFile(event, (loaded, file) => {
+      if (loaded.type === "remote") {
+        toast({ variant: "destructive", title: `Cannot compare with ${file.name}`, description: "Remote policies can only be compared as the main policy." })
+        return
+      }
+      setIsRunning(false)
+      setComparePolicy(loaded)
+      setComparePolicyId(file.name)
+      setCompareEpisodes([])
+    })
+
+  const handleClearComparison = () => {
+    setComparePolicy(null)
+    setComparePolicyId("")
+    setCompareEpisodes([])
   }
 
   return (
@@ -436,15 +1454,22 @@ const App = () => {
         </h1>
         <div className="text-sm font-mono bg-gray-900 px-3 py-1 rounded">
           <span>Ep: {currentEpisode}</span>
-          <span className="ml-4">Step: {currentStep}</span>
+          <span className="ml-4">Step: {currentStep}/{maxStepsFor(environment)}</span>
           <span className="ml-4">Reward: {metrics.totalReward.toFixed(2)}</span>
+          {comparing && <span className="ml-4 text-red-300">Compared: {compareReward.toFixed(2)}</span>}
+          {metrics.agentRewards.length > 1 &&
+            metrics.agentRewards.map((reward, id) => (
+              <span key={id} className="ml-4" style={{ color: AGENT_CHART_COLORS[id % AGENT_CHART_COLORS.length] }}>
+                A{id}: {reward.toFixed(2)}
+              </span>
+            ))}
         </div>
       </header>
       <div className="flex-1 flex overflow-hidden">
         <aside className="w-80 bg-gray-800 p-4 border-r border-gray-700 overflow-y-auto">
           <h3 className="text-lg font-semibold mb-3">Controls</h3>
           <div className="grid grid-cols-2 gap-2 mb-4">
-            <button onClick={() => setIsRunning(true)} disabled={isRunning || !policy} className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-3 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors">
+            <button onClick={() => setIsRunning(true)} disabled={isRunning || (!policy && !manualControl) || !!replay || remoteAgent} className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-3 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors">
               <Play className="w-4 h-4" />
               Play
             </button>
@@ -452,7 +1477,7 @@ const App = () => {
               <Pause className="w-4 h-4" />
               Pause
             </button>
-            <button onClick={() => !isRunning && simulationStep()} disabled={isRunning} className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-3 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors">
+            <button onClick={() => !isRunning && simulationStep()} disabled={isRunning || manualControl || !!replay || remoteAgent} className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-3 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors">
               <SkipForward className="w-4 h-4" />
               Step
             </button>
@@ -460,21 +1485,78 @@ const App = () => {
               <RotateCcw className="w-4 h-4" />
               Reset
             </button>
+            <button
+              onClick={() => handleManualControlChange(!manualControl)}
+              disabled={remoteAgent}
+              className={`${manualControl ? "bg-indigo-600 hover:bg-indigo-700" : "bg-gray-700 hover:bg-gray-600"} disabled:opacity-50 disabled:cursor-not-allowed col-span-2 px-3 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors`}
+            >
+              <Keyboard className="w-4 h-4" />
+              {manualControl ? "Manual Control On" : "Manual Control"}
+            </button>
           </div>
+          {manualControl && <p className="text-xs text-gray-500 -mt-2 mb-4">Move with the arrow keys or WASD while playing. Your games are recorded as policy "{HUMAN_POLICY_ID}".</p>}
           <label className="block text-sm font-medium mb-2">Speed: {simulationSpeed}x</label>
           <input type="range" min="0.5" max="20" step="0.5" value={simulationSpeed} onChange={e => setSimulationSpeed(parseFloat(e.target.value))} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
+          <div className="flex items-end gap-2 mt-3">
+            <div className="flex-1">
+              <NumberField label="Seed" value={seed} min={0} max={MAX_SEED} step={1} onChange={value => setSeed(Math.max(0, Math.min(MAX_SEED, Math.floor(value))))} />
+            </div>
+            <button onClick={() => setSeed(randomSeed())} title="New random seed" className="bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg flex items-center justify-center transition-colors">
+              <Dices className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">Applies from the next episode or reset.</p>
 
           <h3 className="text-lg font-semibold mt-6 mb-3 flex items-center gap-2">
             <Grid3x3 className="w-5 h-5" />
             Environment
           </h3>
-          <select value={selectedEnvironment} onChange={e => setSelectedEnvironment(e.target.value)} className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 mb-3 focus:outline-none focus:ring-2 focus:ring-indigo-500">
-            {Object.entries(environments).map(([key, env]) => (
+          <select value={selectedEnvironment} onChange={e => setSelectedEnvironment(e.target.value)} disabled={isEditing} className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 mb-3 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-indigo-500">
+            {Object.entries(availableEnvironments).map(([key, env]) => (
               <option key={key} value={key}>
                 {env.name}
               </option>
             ))}
           </select>
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            <label className={`bg-gray-700 px-3 py-2 rounded-lg flex items-center justify-center gap-2 text-sm transition-colors ${isEditing ? "opacity-50 cursor-not-allowed" : "hover:bg-gray-600 cursor-pointer"}`}>
+              <Upload className="w-4 h-4" />
+              Import
+              <input ref={environmentInputRef} type="file" accept=".json" onChange={handleEnvironmentImport} disabled={isEditing} className="hidden" />
+            </label>
+            <button onClick={handleEnvironmentExport} className="bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-lg flex items-center justify-center gap-2 text-sm transition-colors">
+              <Download className="w-4 h-4" />
+              Export
+            </button>
+          </div>
+          {environmentImportErrors && (
+            <div className="bg-red-950 border border-red-700 rounded-lg p-2 mb-2 text-xs">
+              <div className="flex items-start justify-between gap-2 mb-1">
+                <span className="font-semibold text-red-300">Could not import {environmentImportErrors.file}</span>
+                <button onClick={() => setEnvironmentImportErrors(null)} className="text-gray-400 hover:text-white">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <ul className="list-disc list-inside text-red-200 space-y-0.5">
+                {environmentImportErrors.errors.map((error, index) => (
+                  <li key={index} className="font-mono">{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <EnvironmentEditorPanel
+            draft={editorDraft}
+            tool={editorTool}
+            tileReward={editorTileReward}
+            onTileRewardChange={setEditorTileReward}
+            canDelete={isCustomEnvironmentKey(selectedEnvironment)}
+            onEdit={handleEditEnvironment}
+            onToolChange={setEditorTool}
+            onDraftChange={setEditorDraft}
+            onSave={handleSaveEnvironment}
+            onCancel={() => setEditorDraft(null)}
+            onDelete={handleDeleteEnvironment}
+          />
 
           <h3 className="text-lg font-semibold mt-6 mb-3 flex items-center gap-2">
             <Upload className="w-5 h-5" />
@@ -482,18 +1564,103 @@ const App = () => {
           </h3>
           {policy ? (
              <div className="flex items-center justify-between bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm">
-                <span className="text-green-400 font-semibold">Policy Loaded</span>
+                {policy.type === "remote" ? (
+                  <span className="text-green-400 font-semibold truncate" title={policy.endpoint}>
+                    Remote: {policy.endpoint}
+                  </span>
+                ) : (
+                  <span className="text-green-400 font-semibold">Policy Loaded</span>
+                )}
                 <button onClick={handleClearPolicy} className="text-gray-400 hover:text-white">
                     <X className="w-5 h-5" />
                 </button>
              </div>
           ) : (
-            <label className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm cursor-pointer hover:bg-gray-600 flex items-center justify-center">
-                <span>Upload .json Policy</span>
-                <input ref={fileInputRef} type="file" accept=".json" onChange={handleFileUpload} className="hidden" />
+            <>
+              <label className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm cursor-pointer hover:bg-gray-600 flex items-center justify-center">
+                  <span>Upload .json Policy</span>
+                  <input ref={fileInputRef} type="file" accept=".json" onChange={handleFileUpload} className="hidden" />
+              </label>
+              <RemotePolicyForm onConnect={handleRemotePolicy} />
+            </>
+          )}
+          {comparePolicy ? (
+            <div className="flex items-center justify-between bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 mt-2 text-sm">
+              <span className="text-red-300 font-semibold truncate" title={comparePolicyId}>
+                Comparing {comparePolicyId}
+              </span>
+              <button onClick={handleClearComparison} title="Stop comparing" className="text-gray-400 hover:text-white">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+          ) : (
+            <label className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 mt-2 text-sm cursor-pointer hover:bg-gray-600 flex items-center justify-center gap-2">
+              <Columns2 className="w-4 h-4" />
+              <span>Compare with .json Policy</span>
+              <input type="file" accept=".json" onChange={handleCompareUpload} className="hidden" />
             </label>
           )}
 
+          <TrainingPanel
+            environmentKey={selectedEnvironment}
+            environment={environment}
+            seed={seed}
+            onTrainingStart={() => setIsRunning(false)}
+            onPolicyUpdate={trained => {
+              setPolicy(trained)
+              setPolicyId("q_learning")
+            }}
+          />
+
+          <PlanningPanel
+            environment={environment}
+            onSolved={result => {
+              setIsRunning(false)
+              setPlanningResult(result)
+              setPolicy(result.policy)
+              setPolicyId(result.method)
+            }}
+          />
+
+          <EvaluationPanel
+            environmentKey={selectedEnvironment}
+            environment={environment}
+            policy={policy}
+            policyId={policyId}
+            seed={seed}
+            onEvaluated={setEvaluation}
+          />
+
+          <ReplayPanel recordings={recordings} replay={replay} speed={simulationSpeed} onReplayChange={handleReplayChange} />
+
+          <DemonstrationPanel
+            environmentKey={selectedEnvironment}
+            environment={environment}
+            demonstrations={environmentDemonstrations}
+            onClear={() => setDemonstrations(prev => prev.filter(recording => !environmentDemonstrations.includes(recording)))}
+          />
+
+          <BehaviorCloningPanel
+            environmentKey={selectedEnvironment}
+            environment={environment}
+            demonstrations={environmentDemonstrations}
+            recordings={environmentRecordings}
+            seed={seed}
+            onTrainingStart={() => setIsRunning(false)}
+            onPolicyUpdate={cloned => {
+              setPolicy(cloned)
+              setPolicyId("behavior_cloning")
+            }}
+          />
+
+          <RemoteAgentPanel
+            environmentKey={selectedEnvironment}
+            recordings={environmentRecordings}
+            speed={simulationSpeed}
+            connected={remoteAgent}
+            onConnectedChange={handleRemoteAgentChange}
+            onMessage={handleRemoteMessage}
+          />
 
           <h3 className="text-lg font-semibold mt-6 mb-3 flex items-center gap-2">
             <Eye className="w-5 h-5" />
@@ -502,8 +1669,44 @@ const App = () => {
           <div className="space-y-2">
             <label className="flex items-center gap-2 cursor-pointer">
               <input type="checkbox" checked={showQValues} onChange={e => setShowQValues(e.target.checked)} className="rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500" />
-              Show Best Action
+              Show Policy Arrows
+            </label>
+            <select value={valueOverlay} onChange={e => setValueOverlay(e.target.value as ValueOverlay)} className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500">
+              <option value="off">No value overlay</option>
+              <option value="state_value">State value heatmap</option>
+              <option value="action_values">Action value wedges</option>
+            </select>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={showValueLabels} onChange={e => setShowValueLabels(e.target.checked)} disabled={valueOverlay === "off"} className="rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500" />
+              Show Value Numbers
+            </label>
+            {valueOverlay !== "off" && policy && !policyValues && <p className="text-xs text-gray-500">This policy has no action values to show.</p>}
+            {comparing && (
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={showDisagreements} onChange={e => setShowDisagreements(e.target.checked)} className="rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500" />
+                Show Policy Disagreements
+              </label>
+            )}
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={showVisitation} onChange={e => setShowVisitation(e.target.checked)} className="rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500" />
+              Show Visitation Heatmap
             </label>
+            {showVisitation && (
+              <div className="pl-6 space-y-2">
+                <label className="flex items-center gap-2 cursor-pointer text-sm">
+                  <input type="checkbox" checked={normalizeVisitation} onChange={e => setNormalizeVisitation(e.target.checked)} className="rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500" />
+                  Per Episode Average
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer text-sm">
+                  <input type="checkbox" checked={recentVisitationOnly} onChange={e => setRecentVisitationOnly(e.target.checked)} className="rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500" />
+                  Only Recent Episodes
+                </label>
+                {recentVisitationOnly && (
+                  <NumberField label="Last N episodes" value={visitationWindow} min={1} max={MAX_RECENT_EPISODES} step={1} onChange={n => setVisitationWindow(Math.max(1, Math.min(MAX_RECENT_EPISODES, Math.round(n))))} />
+                )}
+                <p className="text-xs text-gray-500">{visitation.episodes} episodes recorded.</p>
+              </div>
+            )}
             <label className="flex items-center gap-2 cursor-pointer">
               <input type="checkbox" checked={showTrajectories} onChange={e => setShowTrajectories(e.target.checked)} className="rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500" />
               Show Trajectories
@@ -518,21 +1721,76 @@ const App = () => {
           </div>
         </aside>
         <main className="flex-1 relative">
-          <div ref={mountRef} className="w-full h-full" />
+          <div className="w-full h-full flex">
+            <div className="flex-1 min-w-0 h-full relative">
+              <div ref={mountRef} className="w-full h-full" />
+              {comparing && <div className="absolute top-4 left-4 bg-black bg-opacity-50 px-2 py-1 rounded text-xs font-mono text-green-400">{policyId}</div>}
+            </div>
+            {comparing && (
+              <div className="flex-1 min-w-0 h-full relative border-l-2 border-gray-700">
+                <div ref={compareMountRef} className="w-full h-full" />
+                <div className="absolute top-4 left-4 bg-black bg-opacity-50 px-2 py-1 rounded text-xs font-mono text-red-300">{comparePolicyId}</div>
+              </div>
+            )}
+          </div>
           <div className="absolute top-4 right-4 bg-black bg-opacity-50 p-3 rounded-lg text-sm font-mono">
             <div>
-              <span className="font-bold text-gray-400">Env:</span> {environments[selectedEnvironment].name}
+              <span className="font-bold text-gray-400">Env:</span> {environment.name}
+              {isEditing && <span className="ml-2 text-indigo-400">(editing)</span>}
+            </div>
+            <div>
+              <span className="font-bold text-gray-400">Dynamics:</span> <span className={isStochastic(environment) ? "text-cyan-400" : "text-gray-300"}>{describeDynamics(environment)}</span>
             </div>
             <div>
-              <span className="font-bold text-gray-400">Policy:</span> <span className={policy ? "text-green-400" : "text-yellow-400"}>{policy ? "Loaded" : "None"}</span>
+              <span className="font-bold text-gray-400">Policy:</span> <span className={policy || remoteAgent ? "text-green-400" : "text-yellow-400"}>{remoteAgent ? "Remote" : policy ? "Loaded" : "None"}</span>
             </div>
+            {policy?.type === "remote" && (
+              <div>
+                <span className="font-bold text-gray-400">Latency:</span>{" "}
+                {remoteLatency ? (
+                  <>
+                    <span className={remoteLatency.lastRetries > 0 ? "text-red-400" : remoteLatency.lastMs > (policy.timeoutMs ?? DEFAULT_REMOTE_TIMEOUT_MS) / 2 ? "text-yellow-400" : "text-green-400"}>
+                      {remoteLatency.lastMs.toFixed(0)} ms
+                    </span>
+                    <span className="text-gray-400">
+                      {" "}
+                      (avg {remoteLatency.meanMs.toFixed(0)} ms{remoteLatency.retries > 0 && `, ${remoteLatency.retries} retries`})
+                    </span>
+                  </>
+                ) : (
+                  <span className="text-gray-500">no requests yet</span>
+                )}
+              </div>
+            )}
+            {policyDiff && (
+              <div>
+                <span className="font-bold text-gray-400">Disagree:</span>{" "}
+                <span className="text-red-300">
+                  {policyDiff.disagreements.length}/{policyDiff.compared} cells
+                </span>
+              </div>
+            )}
             <div>
-              <span className="font-bold text-gray-400">Status:</span> <span className={isRunning ? "text-green-400" : "text-red-400"}>{isRunning ? "Running" : "Paused"}</span>
+              <span className="font-bold text-gray-400">Status:</span> {replay ? (
+                <span className="text-indigo-400">Replaying episode {recordings[replay.recording]?.episode}</span>
+              ) : remoteAgent ? (
+                <span className="text-indigo-400">Watching remote agent</span>
+              ) : (
+                <span className={isRunning ? "text-green-400" : "text-red-400"}>{isRunning ? (manualControl ? "Your move" : "Running") : "Paused"}</span>
+              )}
             </div>
           </div>
+          <div className="absolute bottom-4 left-4 flex flex-col gap-2">
+            {policyValues && valueOverlay !== "off" && (
+              <HeatmapLegend title={valueOverlay === "state_value" ? "State value (max Q)" : "Action values (Q)"} min={policyValues.min} max={policyValues.max} />
+            )}
+            {showVisitation && (
+              <HeatmapLegend title={normalizeVisitation ? "Visits per episode" : "Visits"} min={0} max={Math.max(0, ...visitCounts)} />
+            )}
+          </div>
         </main>
       </div>
-      {showDashboard && <Dashboard rewardHistory={rewardHistory} stepsPerEpisode={stepsPerEpisode} onClose={() => setShowDashboard(false)} />}
+      {showDashboard && <Dashboard rewardHistory={rewardHistory} episodes={episodes} agentWins={agentWins} discount={rewardsFor(environment).discount} planningResult={planningResult} evaluation={evaluation} policyId={policyId} comparison={comparing ? { policyId: comparePolicyId, episodes: compareEpisodes } : null} onClose={() => setShowDashboard(false)} />}
     </div>
   )
 }
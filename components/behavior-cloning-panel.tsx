@@ -0,0 +1,212 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Download, Footprints, Square } from "lucide-react"
+import { NumberField } from "@/components/number-field"
+import {
+  type AgreementReport,
+  type BehaviorCloningOptions,
+  type CloningModel,
+  DEFAULT_BEHAVIOR_CLONING_OPTIONS,
+  MlpCloningTrainer,
+  demonstratedActions,
+  demonstratorAgreement,
+  fitPolicyTable,
+} from "@/lib/behavior-cloning"
+import { isDemonstration } from "@/lib/demonstrations"
+import type { EpisodeRecording } from "@/lib/episode-recording"
+import { type EnvironmentConfig, fromStateIndex } from "@/lib/grid-env"
+import type { ObservationEncoding } from "@/lib/mlp"
+import type { MlpPolicy, PolicyTablePolicy } from "@/lib/policy"
+import { createRandom } from "@/lib/random"
+import { runInTicks } from "@/lib/tick-loop"
+import { downloadFile } from "@/lib/utils"
+
+// States listed in the agreement report, worst first.
+const REPORTED_STATES = 5
+
+type DemonstrationSource = "human" | "agent" | "all"
+
+interface BehaviorCloningPanelProps {
+  environmentKey: string
+  environment: EnvironmentConfig
+  // Human-driven recordings made in `environment`.
+  demonstrations: EpisodeRecording[]
+  // Recent episodes of `environment`, agent- and human-driven.
+  recordings: EpisodeRecording[]
+  // Seeds the network's initial weights.
+  seed: number
+  onTrainingStart: () => void
+  onPolicyUpdate: (policy: PolicyTablePolicy | MlpPolicy) => void
+}
+
+export function BehaviorCloningPanel({ environmentKey, environment, demonstrations, recordings, seed, onTrainingStart, onPolicyUpdate }: BehaviorCloningPanelProps) {
+  const [options, setOptions] = useState<BehaviorCloningOptions>(DEFAULT_BEHAVIOR_CLONING_OPTIONS)
+  const [source, setSource] = useState<DemonstrationSource>("human")
+  const [isTraining, setIsTraining] = useState(false)
+  const [progress, setProgress] = useState<{ epoch: number; loss: number } | null>(null)
+  const [agreement, setAgreement] = useState<AgreementReport | null>(null)
+  const [cloned, setCloned] = useState<PolicyTablePolicy | MlpPolicy | null>(null)
+  const cancelRef = useRef<(() => void) | null>(null)
+
+  // The page re-renders on every simulation step, so the samples are only
+  // rebuilt when the recordings change.
+  const { episodes, samples } = useMemo(() => {
+    const agentEpisodes = recordings.filter(recording => !isDemonstration(recording))
+    const episodes = source === "human" ? demonstrations : source === "agent" ? agentEpisodes : [...demonstrations, ...agentEpisodes]
+    return { episodes, samples: demonstratedActions(episodes) }
+  }, [source, demonstrations, recordings])
+
+  const stopTraining = () => {
+    cancelRef.current?.()
+    cancelRef.current = null
+    setIsTraining(false)
+  }
+
+  // A policy cloned on one map says nothing about another.
+  useEffect(() => {
+    stopTraining()
+    setProgress(null)
+    setAgreement(null)
+    setCloned(null)
+  }, [environmentKey, environment])
+
+  useEffect(() => stopTraining, [])
+
+  const install = (policy: PolicyTablePolicy | MlpPolicy) => {
+    setCloned(policy)
+    onPolicyUpdate(policy)
+  }
+
+  const startCloning = () => {
+    onTrainingStart()
+    setAgreement(null)
+    setProgress(null)
+    if (options.model === "table") {
+      const policy = fitPolicyTable(environment, samples, options.smoothing)
+      install(policy)
+      setAgreement(demonstratorAgreement(policy, environment, samples))
+      return
+    }
+
+    const trainer = new MlpCloningTrainer(environment, samples, options, createRandom(seed))
+    setIsTraining(true)
+    cancelRef.current = runInTicks(
+      trainer,
+      () => trainer.runEpoch(),
+      finished => {
+        setProgress({ epoch: trainer.epoch, loss: trainer.loss })
+        const policy = trainer.toPolicy()
+        install(policy)
+        if (finished) {
+          stopTraining()
+          setAgreement(demonstratorAgreement(policy, environment, samples))
+        }
+      }
+    )
+  }
+
+  const downloadPolicy = () => {
+    if (!cloned) return
+    downloadFile(`${environmentKey}-behavior_cloning.json`, JSON.stringify(cloned, null, 2))
+  }
+
+  const setOption = (patch: Partial<BehaviorCloningOptions>) => setOptions(prev => ({ ...prev, ...patch }))
+  const worstStates = agreement
+    ? [...agreement.states].sort((a, b) => a.matches / a.samples - b.matches / b.samples).slice(0, REPORTED_STATES)
+    : []
+  const selectClassName = "w-full bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-sm text-white disabled:opacity-50"
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mt-6 mb-3 flex items-center gap-2">
+        <Footprints className="w-5 h-5" />
+        Behavior Cloning
+      </h3>
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <label className="flex flex-col gap-1 text-xs text-gray-400">
+          Demonstrations
+          <select value={source} disabled={isTraining} onChange={e => setSource(e.target.value as DemonstrationSource)} className={selectClassName}>
+            <option value="human">Human</option>
+            <option value="agent">Agent</option>
+            <option value="all">Both</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-400">
+          Model
+          <select value={options.model} disabled={isTraining} onChange={e => setOption({ model: e.target.value as CloningModel })} className={selectClassName}>
+            <option value="table">Table</option>
+            <option value="mlp">MLP</option>
+          </select>
+        </label>
+        {options.model === "table" ? (
+          <NumberField label="Smoothing" value={options.smoothing} min={0} step={0.01} onChange={smoothing => setOption({ smoothing: Math.max(0, smoothing) })} />
+        ) : (
+          <>
+            <label className="flex flex-col gap-1 text-xs text-gray-400">
+              Input
+              <select
+                value={options.observation}
+                disabled={isTraining}
+                onChange={e => setOption({ observation: e.target.value as ObservationEncoding["type"] })}
+                className={selectClassName}
+              >
+                <option value="coordinates">Coordinates</option>
+                <option value="one_hot">One-hot cell</option>
+                <option value="local_window">Local window</option>
+              </select>
+            </label>
+            <NumberField label="Hidden units" value={options.hiddenUnits} min={1} max={128} step={1} disabled={isTraining} onChange={n => setOption({ hiddenUnits: Math.max(1, Math.min(128, Math.round(n))) })} />
+            <NumberField label="Learning rate" value={options.learningRate} min={0} step={0.05} disabled={isTraining} onChange={learningRate => setOption({ learningRate })} />
+            <NumberField label="Epochs" value={options.epochs} min={1} step={100} disabled={isTraining} onChange={n => setOption({ epochs: Math.max(1, Math.round(n)) })} />
+          </>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mb-2">
+        {episodes.length} episodes · {samples.length} decisions
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        {isTraining ? (
+          <button onClick={stopTraining} className="bg-yellow-500 hover:bg-yellow-600 px-3 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors">
+            <Square className="w-4 h-4" />
+            Stop
+          </button>
+        ) : (
+          <button onClick={startCloning} disabled={samples.length === 0} className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-3 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors">
+            <Footprints className="w-4 h-4" />
+            Clone
+          </button>
+        )}
+        <button onClick={downloadPolicy} disabled={!cloned} className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors">
+          <Download className="w-4 h-4" />
+          Save
+        </button>
+      </div>
+      {progress && (
+        <div className="mt-3 text-xs font-mono text-gray-400 space-y-1">
+          <div className="w-full bg-gray-700 rounded h-1.5">
+            <div className="bg-indigo-500 h-1.5 rounded" style={{ width: `${(progress.epoch / options.epochs) * 100}%` }} />
+          </div>
+          <div>
+            Epoch {progress.epoch}/{options.epochs} · loss {progress.loss.toFixed(4)}
+          </div>
+        </div>
+      )}
+      {agreement && (
+        <div className="mt-3 text-xs font-mono text-gray-400 space-y-1">
+          <div>
+            Agreement {(agreement.overall * 100).toFixed(1)}% over {agreement.states.length} states
+          </div>
+          {worstStates.map(({ state, samples: count, matches }) => {
+            const [x, y] = fromStateIndex(environment, state)
+            return (
+              <div key={state} className={matches < count ? "text-yellow-400" : "text-gray-500"}>
+                ({x}, {y}) {matches}/{count} match
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
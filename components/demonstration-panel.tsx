@@ -0,0 +1,58 @@
+"use client"
+
+import { Download, GraduationCap, Trash2 } from "lucide-react"
+import { demonstrationTransitions, toDemonstrationCsv, toDemonstrationJsonl } from "@/lib/demonstrations"
+import type { EpisodeRecording } from "@/lib/episode-recording"
+import type { EnvironmentConfig } from "@/lib/grid-env"
+import { HUMAN_POLICY_ID } from "@/lib/manual-control"
+import { downloadFile } from "@/lib/utils"
+
+interface DemonstrationPanelProps {
+  environmentKey: string
+  environment: EnvironmentConfig
+  // Human-driven recordings made in `environment`.
+  demonstrations: EpisodeRecording[]
+  onClear: () => void
+}
+
+export function DemonstrationPanel({ environmentKey, environment, demonstrations, onClear }: DemonstrationPanelProps) {
+  const transitions = demonstrationTransitions(demonstrations).length
+  const filename = `${environmentKey}-demonstrations`
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mt-6 mb-3 flex items-center gap-2">
+        <GraduationCap className="w-5 h-5" />
+        Demonstrations
+      </h3>
+      {demonstrations.length === 0 ? (
+        <p className="text-xs text-gray-500">Games played with Manual Control in this environment are collected here.</p>
+      ) : (
+        <>
+          <p className="text-xs font-mono text-gray-400 mb-2">
+            {demonstrations.length} {HUMAN_POLICY_ID} episodes · {transitions} transitions
+          </p>
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              onClick={() => downloadFile(`${filename}.jsonl`, toDemonstrationJsonl(environment, demonstrations), "application/x-ndjson")}
+              className="bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-lg flex items-center justify-center gap-2 text-sm transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              JSONL
+            </button>
+            <button
+              onClick={() => downloadFile(`${filename}.csv`, toDemonstrationCsv(environment, demonstrations), "text/csv")}
+              className="bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-lg flex items-center justify-center gap-2 text-sm transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              CSV
+            </button>
+            <button onClick={onClear} title="Discard these demonstrations" className="bg-red-600 hover:bg-red-700 px-3 py-2 rounded-lg flex items-center justify-center transition-colors">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+"use client"
+
+import { Box, Coins, Eraser, Flag, MapPin, Pencil, Save, Snowflake, Trash2, X } from "lucide-react"
+import { NumberField } from "@/components/number-field"
+import { type EditorTool, MAX_GRID_SIZE, MAX_STEP_LIMIT, MIN_GRID_SIZE, environmentProblems, resizeEnvironment } from "@/lib/environment-editor"
+import { type DynamicsConfig, type EnvironmentConfig, type RewardConfig, dynamicsFor, maxStepsFor, rewardsFor } from "@/lib/grid-env"
+
+const TOOLS: { tool: EditorTool; label: string; icon: typeof Box }[] = [
+  { tool: "obstacle", label: "Obstacle", icon: Box },
+  { tool: "goal", label: "Goal", icon: Flag },
+  { tool: "start", label: "Start", icon: MapPin },
+  { tool: "slippery", label: "Ice", icon: Snowflake },
+  { tool: "reward", label: "Reward", icon: Coins },
+  { tool: "erase", label: "Erase", icon: Eraser },
+]
+
+interface EnvironmentEditorPanelProps {
+  draft: EnvironmentConfig | null
+  tool: EditorTool
+  // Reward the reward tool paints onto a cell.
+  tileReward: number
+  canDelete: boolean
+  onEdit: () => void
+  onToolChange: (tool: EditorTool) => void
+  onTileRewardChange: (reward: number) => void
+  onDraftChange: (draft: EnvironmentConfig) => void
+  onSave: () => void
+  onCancel: () => void
+  onDelete: () => void
+}
+
+export function EnvironmentEditorPanel({
+  draft,
+  tool,
+  tileReward,
+  canDelete,
+  onEdit,
+  onToolChange,
+  onTileRewardChange,
+  onDraftChange,
+  onSave,
+  onCancel,
+  onDelete,
+}: EnvironmentEditorPanelProps) {
+  if (!draft) {
+    return (
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={onEdit} className="bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-lg flex items-center justify-center gap-2 text-sm transition-colors">
+          <Pencil className="w-4 h-4" />
+          Edit Map
+        </button>
+        <button onClick={onDelete} disabled={!canDelete} className="bg-gray-700 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-2 rounded-lg flex items-center justify-center gap-2 text-sm transition-colors">
+          <Trash2 className="w-4 h-4" />
+          Delete
+        </button>
+      </div>
+    )
+  }
+
+  const problems = environmentProblems(draft)
+  const dynamics = dynamicsFor(draft)
+  const setDynamics = (key: keyof DynamicsConfig, value: number) =>
+    onDraftChange({ ...draft, dynamics: { ...draft.dynamics, [key]: Math.max(0, Math.min(1, value)) } })
+  const rewards = rewardsFor(draft)
+  const setReward = (key: keyof RewardConfig, value: number) => onDraftChange({ ...draft, rewards: { ...draft.rewards, [key]: value } })
+
+  return (
+    <div className="bg-gray-900 border border-indigo-500 rounded-lg p-3 space-y-3">
+      <p className="text-xs text-gray-400">Click floor cells in the view to apply the selected tool. Clicking an item again removes it.</p>
+      <div className="grid grid-cols-3 gap-1">
+        {TOOLS.map(({ tool: option, label, icon: Icon }) => (
+          <button
+            key={option}
+            onClick={() => onToolChange(option)}
+            title={label}
+            className={`px-2 py-2 rounded-lg flex flex-col items-center gap-1 text-xs transition-colors ${tool === option ? "bg-indigo-600" : "bg-gray-700 hover:bg-gray-600"}`}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+      {tool === "reward" && (
+        <NumberField label="Tile reward (on a goal: that goal's reward)" value={tileReward} step={0.5} onChange={onTileRewardChange} />
+      )}
+      <div className="grid grid-cols-3 gap-2">
+        <NumberField label="Width" value={draft.size.x} min={MIN_GRID_SIZE} max={MAX_GRID_SIZE} step={1} onChange={x => onDraftChange(resizeEnvironment(draft, { ...draft.size, x }))} />
+        <NumberField label="Height" value={draft.size.y} min={MIN_GRID_SIZE} max={MAX_GRID_SIZE} step={1} onChange={y => onDraftChange(resizeEnvironment(draft, { ...draft.size, y }))} />
+        <NumberField
+          label="Step limit"
+          value={maxStepsFor(draft)}
+          min={1}
+          max={MAX_STEP_LIMIT}
+          step={10}
+          onChange={maxSteps => onDraftChange({ ...draft, maxSteps: Math.max(1, Math.min(MAX_STEP_LIMIT, Math.round(maxSteps))) })}
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <NumberField label="Slip" value={dynamics.slipProbability} min={0} max={1} step={0.05} onChange={value => setDynamics("slipProbability", value)} />
+        <NumberField label="Noise" value={dynamics.actionNoise} min={0} max={1} step={0.05} onChange={value => setDynamics("actionNoise", value)} />
+        <NumberField label="Ice slip" value={dynamics.tileSlipProbability} min={0} max={1} step={0.05} onChange={value => setDynamics("tileSlipProbability", value)} />
+      </div>
+      <div className="grid grid-cols-4 gap-2">
+        <NumberField label="Step" value={rewards.step} step={0.01} onChange={value => setReward("step", value)} />
+        <NumberField label="Bump" value={rewards.obstacle} step={0.1} onChange={value => setReward("obstacle", value)} />
+        <NumberField label="Goal" value={rewards.goal} step={1} onChange={value => setReward("goal", value)} />
+        <NumberField label="γ report" value={rewards.discount} min={0} max={1} step={0.01} onChange={value => setReward("discount", Math.max(0, Math.min(1, value)))} />
+      </div>
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Name
+        <input
+          type="text"
+          value={draft.name}
+          onChange={e => onDraftChange({ ...draft, name: e.target.value })}
+          className="w-full bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      </label>
+      {problems.length > 0 && (
+        <ul className="text-xs text-yellow-400 list-disc list-inside">
+          {problems.map(problem => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={onSave} disabled={problems.length > 0} className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-3 py-2 rounded-lg flex items-center justify-center gap-2 text-sm transition-colors">
+          <Save className="w-4 h-4" />
+          Save
+        </button>
+        <button onClick={onCancel} className="bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-lg flex items-center justify-center gap-2 text-sm transition-colors">
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
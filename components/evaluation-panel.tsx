@@ -0,0 +1,126 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Download, FlaskConical, Square } from "lucide-react"
+import { NumberField } from "@/components/number-field"
+import { type EvaluationResult, PolicyEvaluator } from "@/lib/evaluation"
+import type { EnvironmentConfig } from "@/lib/grid-env"
+import type { Policy } from "@/lib/policy"
+import { runInTicks } from "@/lib/tick-loop"
+import { downloadFile } from "@/lib/utils"
+
+const MAX_EVALUATION_EPISODES = 10000
+
+interface EvaluationPanelProps {
+  environmentKey: string
+  environment: EnvironmentConfig
+  policy: Policy | null
+  policyId: string
+  seed: number
+  onEvaluated: (result: EvaluationResult | null) => void
+}
+
+export function EvaluationPanel({ environmentKey, environment, policy, policyId, seed, onEvaluated }: EvaluationPanelProps) {
+  const [episodes, setEpisodes] = useState(200)
+  const [isEvaluating, setIsEvaluating] = useState(false)
+  const [completed, setCompleted] = useState(0)
+  const [result, setResult] = useState<EvaluationResult | null>(null)
+  const cancelRef = useRef<(() => void) | null>(null)
+
+  const stopEvaluation = () => {
+    cancelRef.current?.()
+    cancelRef.current = null
+    setIsEvaluating(false)
+  }
+
+  // Results describe one environment and policy; drop them when either changes.
+  useEffect(() => {
+    stopEvaluation()
+    setResult(null)
+    onEvaluated(null)
+  }, [environmentKey, environment, policy])
+
+  useEffect(() => stopEvaluation, [])
+
+  const startEvaluation = () => {
+    const evaluator = new PolicyEvaluator(environment, policy, { episodes, seed, policyId })
+    setIsEvaluating(true)
+    setCompleted(0)
+    cancelRef.current = runInTicks(
+      evaluator,
+      () => evaluator.runEpisode(),
+      finished => {
+        setCompleted(evaluator.records.length)
+        if (finished) {
+          stopEvaluation()
+          const evaluation = evaluator.result()
+          setResult(evaluation)
+          onEvaluated(evaluation)
+        }
+      }
+    )
+  }
+
+  const exportResult = () => {
+    if (!result) return
+    downloadFile(`${environmentKey}-evaluation.json`, JSON.stringify(result, null, 2))
+  }
+
+  const summary = result?.summary
+  // Headless runs step synchronously and cannot wait for an inference server.
+  const isRemote = policy?.type === "remote"
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mt-6 mb-3 flex items-center gap-2">
+        <FlaskConical className="w-5 h-5" />
+        Evaluation
+      </h3>
+      <div className="mb-3">
+        <NumberField
+          label={`Episodes (seed ${seed})`}
+          value={episodes}
+          min={1}
+          max={MAX_EVALUATION_EPISODES}
+          step={50}
+          disabled={isEvaluating}
+          onChange={n => setEpisodes(Math.max(1, Math.min(MAX_EVALUATION_EPISODES, Math.round(n))))}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {isEvaluating ? (
+          <button onClick={stopEvaluation} className="bg-yellow-500 hover:bg-yellow-600 px-3 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors">
+            <Square className="w-4 h-4" />
+            Stop
+          </button>
+        ) : (
+          <button onClick={startEvaluation} disabled={isRemote} className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-3 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors">
+            <FlaskConical className="w-4 h-4" />
+            Evaluate
+          </button>
+        )}
+        <button onClick={exportResult} disabled={!result} className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors">
+          <Download className="w-4 h-4" />
+          Export
+        </button>
+      </div>
+      {isRemote && <p className="mt-2 text-xs text-gray-500">Remote policies can only be played live.</p>}
+      {isEvaluating && (
+        <div className="mt-3 w-full bg-gray-700 rounded h-1.5">
+          <div className="bg-indigo-500 h-1.5 rounded" style={{ width: `${(completed / episodes) * 100}%` }} />
+        </div>
+      )}
+      {summary && !isEvaluating && (
+        <div className="mt-3 text-xs font-mono text-gray-400 space-y-1">
+          <div>
+            Return {summary.meanReturn.toFixed(2)} ± {summary.stdReturn.toFixed(2)} · median {summary.medianReturn.toFixed(2)}
+          </div>
+          <div>
+            Success {(summary.successRate * 100).toFixed(1)}% [{(summary.successInterval[0] * 100).toFixed(1)}–{(summary.successInterval[1] * 100).toFixed(1)}%]
+          </div>
+          <div className="text-gray-500">Details are in the Dashboard.</div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+"use client"
+
+import { HEATMAP_COLORS } from "@/lib/value-heatmap"
+
+interface HeatmapLegendProps {
+  title: string
+  min: number
+  max: number
+}
+
+// Colour scale for a heatmap overlay on the floor.
+export function HeatmapLegend({ title, min, max }: HeatmapLegendProps) {
+  return (
+    <div className="bg-black bg-opacity-50 p-3 rounded-lg text-xs font-mono w-56">
+      <div className="font-bold text-gray-400 mb-1">{title}</div>
+      <div className="h-3 rounded" style={{ background: `linear-gradient(to right, ${HEATMAP_COLORS.join(", ")})` }} />
+      <div className="flex justify-between mt-1 text-gray-300">
+        <span>{min.toFixed(2)}</span>
+        <span>{max.toFixed(2)}</span>
+      </div>
+    </div>
+  )
+}
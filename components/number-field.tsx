@@ -0,0 +1,33 @@
+"use client"
+
+interface NumberFieldProps {
+  label: string
+  value: number
+  onChange: (value: number) => void
+  min?: number
+  max?: number
+  step?: number
+  disabled?: boolean
+}
+
+// Compact labelled number input for the simulator sidebar.
+export function NumberField({ label, value, onChange, min, max, step, disabled }: NumberFieldProps) {
+  return (
+    <label className="flex flex-col gap-1 text-xs text-gray-400">
+      {label}
+      <input
+        type="number"
+        value={value}
+        min={min}
+        max={max}
+        step={step}
+        disabled={disabled}
+        onChange={e => {
+          const next = parseFloat(e.target.value)
+          if (Number.isFinite(next)) onChange(next)
+        }}
+        className="w-full bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-sm text-white disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+    </label>
+  )
+}
@@ -0,0 +1,64 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Calculator } from "lucide-react"
+import { NumberField } from "@/components/number-field"
+import { type EnvironmentConfig, startPositions, toStateIndex } from "@/lib/grid-env"
+import { DEFAULT_PLANNING_OPTIONS, type PlanningMethod, type PlanningOptions, type PlanningResult, solve } from "@/lib/planning"
+
+interface PlanningPanelProps {
+  environment: EnvironmentConfig
+  onSolved: (result: PlanningResult) => void
+}
+
+export function PlanningPanel({ environment, onSolved }: PlanningPanelProps) {
+  const [method, setMethod] = useState<PlanningMethod>("value_iteration")
+  const [options, setOptions] = useState<PlanningOptions>(DEFAULT_PLANNING_OPTIONS)
+  const [result, setResult] = useState<PlanningResult | null>(null)
+
+  useEffect(() => setResult(null), [environment])
+
+  const runPlanner = () => {
+    const solved = solve(environment, method, options)
+    setResult(solved)
+    onSolved(solved)
+  }
+
+  const startValue = result?.stateValues[toStateIndex(environment, startPositions(environment)[0])]
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mt-6 mb-3 flex items-center gap-2">
+        <Calculator className="w-5 h-5" />
+        Planning
+      </h3>
+      <select
+        value={method}
+        onChange={e => setMethod(e.target.value as PlanningMethod)}
+        className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 mb-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      >
+        <option value="value_iteration">Value Iteration</option>
+        <option value="policy_iteration">Policy Iteration</option>
+      </select>
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        <NumberField label="Gamma" value={options.gamma} min={0} max={0.999} step={0.01} onChange={gamma => setOptions(prev => ({ ...prev, gamma: Math.min(gamma, 0.999) }))} />
+        <NumberField label="Theta" value={options.theta} min={0} step={1e-6} onChange={theta => setOptions(prev => ({ ...prev, theta }))} />
+        <NumberField label="Max sweeps" value={options.maxSweeps} min={1} step={100} onChange={maxSweeps => setOptions(prev => ({ ...prev, maxSweeps: Math.max(1, Math.round(maxSweeps)) }))} />
+      </div>
+      <button onClick={runPlanner} className="w-full bg-indigo-600 hover:bg-indigo-700 px-3 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors">
+        <Calculator className="w-4 h-4" />
+        Solve Optimal Policy
+      </button>
+      {result && (
+        <div className="mt-3 text-xs font-mono text-gray-400 space-y-1">
+          <div className={result.converged ? "text-green-400" : "text-yellow-400"}>
+            {result.converged ? "Converged" : "Stopped"} after {result.sweeps} sweeps
+            {result.method === "policy_iteration" && ` / ${result.improvements} improvements`}
+          </div>
+          <div>Final residual {result.residuals[result.residuals.length - 1]?.toExponential(2)}</div>
+          <div>V(start) {startValue?.toFixed(3)}</div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Download, Radio, Unplug, Upload } from "lucide-react"
+import type { EpisodeRecording } from "@/lib/episode-recording"
+import { type RemoteAgentMessage, parseRemoteMessage, toRemoteLog } from "@/lib/remote-agent"
+import { downloadFile } from "@/lib/utils"
+
+const STREAM_URL = "/api/remote"
+const REPLAY_URL = "/api/remote/replay"
+
+type ConnectionStatus = "connecting" | "live" | "reconnecting"
+
+interface RemoteAgentPanelProps {
+  environmentKey: string
+  // Recent episodes of the shown environment, exported as a log the replay
+  // stub can play back.
+  recordings: EpisodeRecording[]
+  // Messages per second when replaying a log.
+  speed: number
+  connected: boolean
+  onConnectedChange: (connected: boolean) => void
+  // Renders a message; returns why it could not be, if it could not.
+  onMessage: (message: RemoteAgentMessage) => string[]
+}
+
+export function RemoteAgentPanel({ environmentKey, recordings, speed, connected, onConnectedChange, onMessage }: RemoteAgentPanelProps) {
+  const [status, setStatus] = useState<ConnectionStatus>("connecting")
+  const [received, setReceived] = useState(0)
+  const [errors, setErrors] = useState<string[]>([])
+  // The page hands over a new handler every render; the stream must not
+  // reconnect for that.
+  const onMessageRef = useRef(onMessage)
+  onMessageRef.current = onMessage
+
+  useEffect(() => {
+    if (!connected) return
+    setStatus("connecting")
+    setReceived(0)
+    setErrors([])
+    const source = new EventSource(STREAM_URL)
+    source.onopen = () => setStatus("live")
+    // EventSource retries on its own after an error.
+    source.onerror = () => setStatus("reconnecting")
+    source.onmessage = event => {
+      setReceived(n => n + 1)
+      let json: unknown
+      try {
+        json = JSON.parse(event.data)
+      } catch (error) {
+        setErrors([`Not valid JSON: ${(error as Error).message}`])
+        return
+      }
+      const parsed = parseRemoteMessage(json)
+      const problems = parsed.success ? onMessageRef.current(parsed.data) : parsed.errors
+      if (problems.length > 0) setErrors(problems)
+    }
+    return () => source.close()
+  }, [connected])
+
+  const replayLogFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+    try {
+      const response = await fetch(`${REPLAY_URL}?interval=${Math.round(1000 / speed)}`, { method: "POST", body: await file.text() })
+      if (response.ok) return
+      const { error = `HTTP ${response.status}`, details = [] } = await response.json().catch(() => ({}))
+      setErrors([`${file.name}: ${error}`, ...details])
+    } catch (error) {
+      setErrors([`${file.name}: could not start the replay: ${(error as Error).message}`])
+    }
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mt-6 mb-3 flex items-center gap-2">
+        <Radio className="w-5 h-5" />
+        Remote Agent
+      </h3>
+      <button
+        onClick={() => onConnectedChange(!connected)}
+        className={`${connected ? "bg-indigo-600 hover:bg-indigo-700" : "bg-gray-700 hover:bg-gray-600"} w-full px-3 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors`}
+      >
+        {connected ? <Unplug className="w-4 h-4" /> : <Radio className="w-4 h-4" />}
+        {connected ? "Disconnect" : "Watch Remote Agent"}
+      </button>
+      {connected ? (
+        <>
+          <p className="text-xs font-mono text-gray-400 mt-2">
+            <span className={status === "live" ? "text-green-400" : "text-yellow-400"}>{status}</span> · {received} messages
+          </p>
+          <label className="mt-2 bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-lg flex items-center justify-center gap-2 text-sm cursor-pointer transition-colors">
+            <Upload className="w-4 h-4" />
+            Replay .jsonl Log
+            <input type="file" accept=".jsonl,.ndjson,.txt" onChange={replayLogFile} className="hidden" />
+          </label>
+        </>
+      ) : (
+        <p className="text-xs text-gray-500 mt-2">
+          Renders the reset and step messages a trainer POSTs to {STREAM_URL}, instead of the loaded policy.
+        </p>
+      )}
+      <button
+        onClick={() => downloadFile(`${environmentKey}-remote_log.jsonl`, toRemoteLog(recordings), "application/x-ndjson")}
+        disabled={recordings.length === 0}
+        className="w-full mt-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-2 rounded-lg flex items-center justify-center gap-2 text-sm transition-colors"
+      >
+        <Download className="w-4 h-4" />
+        Export Episodes as Log
+      </button>
+      {errors.length > 0 && (
+        <ul className="mt-2 text-xs font-mono text-red-300 space-y-0.5">
+          {errors.slice(0, 5).map((error, index) => (
+            <li key={index}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { useState } from "react"
+import { Server } from "lucide-react"
+import { NumberField } from "@/components/number-field"
+import type { RemotePolicy } from "@/lib/policy"
+import { parseRemotePolicy } from "@/lib/policy-schema"
+import { DEFAULT_REMOTE_RETRIES, DEFAULT_REMOTE_TIMEOUT_MS } from "@/lib/remote-policy"
+
+interface RemotePolicyFormProps {
+  onConnect: (policy: RemotePolicy) => void
+}
+
+export function RemotePolicyForm({ onConnect }: RemotePolicyFormProps) {
+  const [endpoint, setEndpoint] = useState("http://localhost:8000/act")
+  const [timeoutMs, setTimeoutMs] = useState(DEFAULT_REMOTE_TIMEOUT_MS)
+  const [retries, setRetries] = useState(DEFAULT_REMOTE_RETRIES)
+  const [errors, setErrors] = useState<string[]>([])
+
+  const connect = () => {
+    const result = parseRemotePolicy({ type: "remote", endpoint: endpoint.trim(), timeoutMs, retries })
+    setErrors(result.success ? [] : result.errors)
+    if (result.success) onConnect(result.data)
+  }
+
+  return (
+    <div className="mt-2 space-y-2">
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Inference URL
+        <input
+          type="url"
+          value={endpoint}
+          onChange={e => setEndpoint(e.target.value)}
+          onKeyDown={e => e.key === "Enter" && connect()}
+          className="w-full bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-sm text-white font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField label="Timeout (ms)" value={timeoutMs} min={1} max={60000} step={100} onChange={n => setTimeoutMs(Math.max(1, Math.min(60000, Math.round(n))))} />
+        <NumberField label="Retries" value={retries} min={0} max={10} step={1} onChange={n => setRetries(Math.max(0, Math.min(10, Math.round(n))))} />
+      </div>
+      <button onClick={connect} className="w-full bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-lg flex items-center justify-center gap-2 text-sm transition-colors">
+        <Server className="w-4 h-4" />
+        Use Remote Policy
+      </button>
+      {errors.length > 0 && (
+        <ul className="text-xs font-mono text-red-300 space-y-0.5">
+          {errors.map((error, index) => (
+            <li key={index}>{error}</li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-gray-500">
+        Each step POSTs {"{ observation, agent, position, step, episode }"} per agent and expects {"{ action, qValues? }"} back. The server
+        must allow cross-origin requests from this page.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+"use client"
+
+import { History, Pause, Play, SkipBack, StepBack, StepForward, X } from "lucide-react"
+import { type EpisodeRecording, describeOutcome, frameCount } from "@/lib/episode-recording"
+import { ACTION_NAMES } from "@/lib/grid-env"
+
+export interface ReplayState {
+  recording: number
+  frame: number
+  playing: boolean
+}
+
+interface ReplayPanelProps {
+  recordings: EpisodeRecording[]
+  replay: ReplayState | null
+  speed: number
+  onReplayChange: (replay: ReplayState | null) => void
+}
+
+export function ReplayPanel({ recordings, replay, speed, onReplayChange }: ReplayPanelProps) {
+  const recording = replay ? recordings[replay.recording] : null
+  const lastFrame = recording ? frameCount(recording) - 1 : 0
+  const seek = (frame: number) => replay && onReplayChange({ ...replay, frame: Math.max(0, Math.min(lastFrame, frame)), playing: false })
+  // The step taken from the current frame; the final frame shows the last step.
+  const step = recording?.steps[Math.min(replay?.frame ?? 0, recording.steps.length - 1)]
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mt-6 mb-3 flex items-center gap-2">
+        <History className="w-5 h-5" />
+        Replay
+      </h3>
+      {recordings.length === 0 ? (
+        <p className="text-xs text-gray-500">Finished or reset episodes appear here.</p>
+      ) : (
+        <select
+          value={replay?.recording ?? ""}
+          onChange={e => onReplayChange(e.target.value === "" ? null : { recording: Number(e.target.value), frame: 0, playing: false })}
+          className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 mb-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="">Choose an episode…</option>
+          {recordings.map((r, index) => (
+            <option key={index} value={index}>
+              Episode {r.episode} · {r.steps.length} steps · {describeOutcome(r)}
+            </option>
+          ))}
+        </select>
+      )}
+      {replay && recording && (
+        <div className="space-y-2">
+          <input
+            type="range"
+            min={0}
+            max={lastFrame}
+            value={replay.frame}
+            onChange={e => seek(Number(e.target.value))}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+          <div className="grid grid-cols-5 gap-1">
+            <button onClick={() => seek(0)} title="First frame" className="bg-gray-700 hover:bg-gray-600 py-2 rounded-lg flex items-center justify-center">
+              <SkipBack className="w-4 h-4" />
+            </button>
+            <button onClick={() => seek(replay.frame - 1)} disabled={replay.frame === 0} title="Previous frame" className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 py-2 rounded-lg flex items-center justify-center">
+              <StepBack className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onReplayChange({ ...replay, frame: replay.frame >= lastFrame ? 0 : replay.frame, playing: !replay.playing })}
+              title={replay.playing ? "Pause" : "Play"}
+              className="bg-green-600 hover:bg-green-700 py-2 rounded-lg flex items-center justify-center"
+            >
+              {replay.playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            </button>
+            <button onClick={() => seek(replay.frame + 1)} disabled={replay.frame >= lastFrame} title="Next frame" className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 py-2 rounded-lg flex items-center justify-center">
+              <StepForward className="w-4 h-4" />
+            </button>
+            <button onClick={() => onReplayChange(null)} title="Exit replay" className="bg-red-600 hover:bg-red-700 py-2 rounded-lg flex items-center justify-center">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="text-xs font-mono text-gray-400">
+            Frame {replay.frame}/{lastFrame} · {speed}x · seed {recording.seed}
+          </div>
+          {step && (
+            <div className="bg-gray-900 rounded-lg p-2 text-xs font-mono space-y-1">
+              {step.actions.map((action, id) => (
+                <div key={id}>
+                  {step.actions.length > 1 && <span className="text-gray-500">A{id} </span>}
+                  <span className="text-white">{ACTION_NAMES[action]}</span>
+                  <span className="text-gray-400"> r={step.rewards[id].toFixed(2)}</span>
+                  {step.qValues[id] && (
+                    <div className="text-gray-500">
+                      {step.qValues[id].map((value, a) => (
+                        <span key={a} className={a === action ? "text-green-400" : undefined}>
+                          {ACTION_NAMES[a][0]}:{value.toFixed(2)}{" "}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
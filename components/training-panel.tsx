@@ -0,0 +1,138 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Brain, Download, Square } from "lucide-react"
+import { NumberField } from "@/components/number-field"
+import type { EnvironmentConfig } from "@/lib/grid-env"
+import type { QTablePolicy } from "@/lib/policy"
+import { DEFAULT_Q_LEARNING_OPTIONS, type EpisodeSummary, type QLearningOptions, QLearningTrainer } from "@/lib/q-learning"
+import { createRandom } from "@/lib/random"
+import { runInTicks } from "@/lib/tick-loop"
+import { downloadFile } from "@/lib/utils"
+
+interface TrainingPanelProps {
+  environmentKey: string
+  environment: EnvironmentConfig
+  // Training runs with the same seed reproduce the same table.
+  seed: number
+  onTrainingStart: () => void
+  onPolicyUpdate: (policy: QTablePolicy) => void
+}
+
+export function TrainingPanel({ environmentKey, environment, seed, onTrainingStart, onPolicyUpdate }: TrainingPanelProps) {
+  const [options, setOptions] = useState<QLearningOptions>(DEFAULT_Q_LEARNING_OPTIONS)
+  const [isTraining, setIsTraining] = useState(false)
+  const [progress, setProgress] = useState<EpisodeSummary | null>(null)
+  const [successRate, setSuccessRate] = useState(0)
+  const trainerRef = useRef<QLearningTrainer | null>(null)
+  const cancelRef = useRef<(() => void) | null>(null)
+
+  const stopTraining = () => {
+    cancelRef.current?.()
+    cancelRef.current = null
+    setIsTraining(false)
+  }
+
+  // A table trained on one map is meaningless on another.
+  useEffect(() => {
+    stopTraining()
+    trainerRef.current = null
+    setProgress(null)
+  }, [environmentKey, environment])
+
+  useEffect(() => stopTraining, [])
+
+  const startTraining = () => {
+    onTrainingStart()
+    const trainer = new QLearningTrainer(environment, options, createRandom(seed))
+    trainerRef.current = trainer
+    const recent: boolean[] = []
+    setIsTraining(true)
+
+    let summary: EpisodeSummary | null = null
+    cancelRef.current = runInTicks(
+      trainer,
+      () => {
+        summary = trainer.runEpisode()
+        recent.push(summary.success)
+        if (recent.length > 100) recent.shift()
+      },
+      finished => {
+        if (summary) {
+          setProgress(summary)
+          setSuccessRate(recent.filter(Boolean).length / recent.length)
+          summary = null
+        }
+        onPolicyUpdate(trainer.toPolicy())
+        if (finished) stopTraining()
+      }
+    )
+  }
+
+  const downloadPolicy = () => {
+    if (!trainerRef.current) return
+    downloadFile(`${environmentKey}-q_table.json`, JSON.stringify(trainerRef.current.toPolicy(), null, 2))
+  }
+
+  const setEpsilon = (patch: Partial<QLearningOptions["epsilon"]>) =>
+    setOptions(prev => ({ ...prev, epsilon: { ...prev.epsilon, ...patch } }))
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mt-6 mb-3 flex items-center gap-2">
+        <Brain className="w-5 h-5" />
+        Q-Learning
+      </h3>
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <NumberField label="Alpha" value={options.alpha} min={0} max={1} step={0.01} disabled={isTraining} onChange={alpha => setOptions(prev => ({ ...prev, alpha }))} />
+        <NumberField label="Gamma" value={options.gamma} min={0} max={1} step={0.01} disabled={isTraining} onChange={gamma => setOptions(prev => ({ ...prev, gamma }))} />
+        <NumberField label="Epsilon start" value={options.epsilon.start} min={0} max={1} step={0.05} disabled={isTraining} onChange={start => setEpsilon({ start })} />
+        <NumberField label="Epsilon end" value={options.epsilon.end} min={0} max={1} step={0.01} disabled={isTraining} onChange={end => setEpsilon({ end })} />
+        <NumberField label="Decay episodes" value={options.epsilon.decayEpisodes} min={0} step={10} disabled={isTraining} onChange={decayEpisodes => setEpsilon({ decayEpisodes })} />
+        <label className="flex flex-col gap-1 text-xs text-gray-400">
+          Decay
+          <select
+            value={options.epsilon.decay}
+            disabled={isTraining}
+            onChange={e => setEpsilon({ decay: e.target.value as QLearningOptions["epsilon"]["decay"] })}
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-sm text-white disabled:opacity-50"
+          >
+            <option value="exponential">Exponential</option>
+            <option value="linear">Linear</option>
+          </select>
+        </label>
+        <NumberField label="Episodes" value={options.episodes} min={1} step={50} disabled={isTraining} onChange={episodes => setOptions(prev => ({ ...prev, episodes: Math.max(1, Math.round(episodes)) }))} />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {isTraining ? (
+          <button onClick={stopTraining} className="bg-yellow-500 hover:bg-yellow-600 px-3 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors">
+            <Square className="w-4 h-4" />
+            Stop
+          </button>
+        ) : (
+          <button onClick={startTraining} className="bg-green-600 hover:bg-green-700 px-3 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors">
+            <Brain className="w-4 h-4" />
+            Train
+          </button>
+        )}
+        <button onClick={downloadPolicy} disabled={!progress} className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors">
+          <Download className="w-4 h-4" />
+          Save
+        </button>
+      </div>
+      {progress && (
+        <div className="mt-3 text-xs font-mono text-gray-400 space-y-1">
+          <div className="w-full bg-gray-700 rounded h-1.5">
+            <div className="bg-indigo-500 h-1.5 rounded" style={{ width: `${(progress.episode / options.episodes) * 100}%` }} />
+          </div>
+          <div>
+            Episode {progress.episode}/{options.episodes} · ε {progress.epsilon.toFixed(3)}
+          </div>
+          <div>
+            Return {progress.return.toFixed(2)} · Success (last 100) {(successRate * 100).toFixed(0)}%
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,173 @@
+import { demonstrationTransitions } from "@/lib/demonstrations"
+import type { EpisodeRecording } from "@/lib/episode-recording"
+import { ACTIONS, type EnvironmentConfig, fromStateIndex } from "@/lib/grid-env"
+import { type MlpLayer, type ObservationEncoding, encodeObservation, observationSize, softmax } from "@/lib/mlp"
+import type { MlpPolicy, Policy, PolicyTablePolicy } from "@/lib/policy"
+import { preferredAction } from "@/lib/policy-comparison"
+
+export type CloningModel = "table" | "mlp"
+
+export interface BehaviorCloningOptions {
+  model: CloningModel
+  // Pseudo-count added to every action of every state in the table, so states
+  // without demonstrations fall back to uniform.
+  smoothing: number
+  // Network input; see ObservationEncoding.
+  observation: ObservationEncoding["type"]
+  hiddenUnits: number
+  learningRate: number
+  epochs: number
+}
+
+export const DEFAULT_BEHAVIOR_CLONING_OPTIONS: BehaviorCloningOptions = {
+  model: "table",
+  smoothing: 0.01,
+  observation: "coordinates",
+  hiddenUnits: 16,
+  learningRate: 0.5,
+  epochs: 500,
+}
+
+// One demonstrated decision.
+export interface StateAction {
+  agent: number
+  state: number
+  action: number
+}
+
+export function demonstratedActions(recordings: EpisodeRecording[]): StateAction[] {
+  return demonstrationTransitions(recordings).map(({ agent, state, action }) => ({ agent, state, action }))
+}
+
+// Maximum-likelihood table: the demonstrated action frequencies per state.
+export function fitPolicyTable(config: EnvironmentConfig, samples: StateAction[], smoothing: number): PolicyTablePolicy {
+  const counts = Array.from({ length: config.size.x * config.size.y }, () => new Array(ACTIONS.length).fill(smoothing))
+  samples.forEach(({ state, action }) => counts[state][action]++)
+  return {
+    type: "policy_table",
+    values: counts.map(row => {
+      const total = row.reduce((a, b) => a + b, 0)
+      return total > 0 ? row.map(count => count / total) : row.map(() => 1 / ACTIONS.length)
+    }),
+  }
+}
+
+// Small network (one tanh hidden layer, softmax over the actions) fitted by
+// full-batch gradient descent on the demonstrations' negative log-likelihood.
+// Epochs are run one at a time via runEpoch() so callers can interleave
+// training with rendering. `random` only initialises the weights.
+export class MlpCloningTrainer {
+  readonly options: BehaviorCloningOptions
+  readonly layers: [MlpLayer, MlpLayer]
+  epoch = 0
+  loss = Infinity
+  private readonly encoding: ObservationEncoding
+  private readonly inputs: number[][]
+  private readonly targets: number[]
+
+  constructor(config: EnvironmentConfig, samples: StateAction[], options: BehaviorCloningOptions, random: () => number = Math.random) {
+    this.options = options
+    this.encoding = { type: options.observation }
+    this.inputs = samples.map(({ state }) => encodeObservation(this.encoding, config, fromStateIndex(config, state)))
+    this.targets = samples.map(({ action }) => action)
+    const inputSize = observationSize(this.encoding, config)
+    // Glorot-uniform weights, zero biases.
+    const dense = (fanIn: number, outputs: number, activation: MlpLayer["activation"]): MlpLayer => {
+      const limit = Math.sqrt(6 / (fanIn + outputs))
+      return {
+        weights: Array.from({ length: outputs }, () => Array.from({ length: fanIn }, () => (random() * 2 - 1) * limit)),
+        biases: new Array(outputs).fill(0),
+        activation,
+      }
+    }
+    this.layers = [dense(inputSize, options.hiddenUnits, "tanh"), dense(options.hiddenUnits, ACTIONS.length, "linear")]
+  }
+
+  get finished(): boolean {
+    return this.epoch >= this.options.epochs || this.inputs.length === 0
+  }
+
+  // One gradient step over every sample; returns the mean loss before it.
+  runEpoch(): number {
+    const [hidden, output] = this.layers
+    const gradHiddenW = hidden.weights.map(row => row.map(() => 0))
+    const gradHiddenB = hidden.biases.map(() => 0)
+    const gradOutputW = output.weights.map(row => row.map(() => 0))
+    const gradOutputB = output.biases.map(() => 0)
+    let loss = 0
+
+    this.inputs.forEach((input, sample) => {
+      const h = hidden.weights.map((row, j) => Math.tanh(row.reduce((sum, w, i) => sum + w * input[i], hidden.biases[j])))
+      const p = softmax(output.weights.map((row, k) => row.reduce((sum, w, j) => sum + w * h[j], output.biases[k])))
+      const target = this.targets[sample]
+      loss -= Math.log(Math.max(p[target], 1e-12))
+      // Cross-entropy through softmax: dL/dz = p - onehot(target).
+      const dz = p.map((pk, k) => pk - (k === target ? 1 : 0))
+      const dh = h.map((hj, j) => dz.reduce((sum, dzk, k) => sum + dzk * output.weights[k][j], 0) * (1 - hj * hj))
+      dz.forEach((dzk, k) => {
+        gradOutputB[k] += dzk
+        h.forEach((hj, j) => (gradOutputW[k][j] += dzk * hj))
+      })
+      dh.forEach((dhj, j) => {
+        if (dhj === 0) return
+        gradHiddenB[j] += dhj
+        input.forEach((x, i) => {
+          if (x !== 0) gradHiddenW[j][i] += dhj * x
+        })
+      })
+    })
+
+    const step = this.options.learningRate / this.inputs.length
+    const descend = (layer: MlpLayer, gradW: number[][], gradB: number[]) => {
+      layer.weights.forEach((row, out) => row.forEach((_, i) => (row[i] -= step * gradW[out][i])))
+      layer.biases.forEach((_, out) => (layer.biases[out] -= step * gradB[out]))
+    }
+    descend(hidden, gradHiddenW, gradHiddenB)
+    descend(output, gradOutputW, gradOutputB)
+
+    this.epoch += 1
+    this.loss = loss / this.inputs.length
+    return this.loss
+  }
+
+  toPolicy(): MlpPolicy {
+    return {
+      type: "mlp",
+      observation: this.encoding,
+      layers: this.layers.map(layer => ({ ...layer, weights: layer.weights.map(row => [...row]), biases: [...layer.biases] })),
+      output: "logits",
+    }
+  }
+}
+
+export interface StateAgreement {
+  state: number
+  samples: number
+  // Demonstrated actions that match the policy's preferred action.
+  matches: number
+}
+
+export interface AgreementReport {
+  // Only states with at least one demonstration, in state order.
+  states: StateAgreement[]
+  // Share of all demonstrated decisions the policy reproduces.
+  overall: number
+}
+
+export function demonstratorAgreement(policy: Policy | null, config: EnvironmentConfig, samples: StateAction[]): AgreementReport {
+  const byState = new Map<number, StateAgreement>()
+  let matches = 0
+  samples.forEach(({ agent, state, action }) => {
+    const entry = byState.get(state) ?? { state, samples: 0, matches: 0 }
+    entry.samples++
+    if (preferredAction(policy, config, state, agent) === action) {
+      entry.matches++
+      matches++
+    }
+    byState.set(state, entry)
+  })
+  return {
+    states: [...byState.values()].sort((a, b) => a.state - b.state),
+    overall: samples.length > 0 ? matches / samples.length : 0,
+  }
+}
@@ -0,0 +1,137 @@
+import { type EnvironmentFile, toEnvironmentFile } from "@/lib/environment-schema"
+import type { EpisodeRecording } from "@/lib/episode-recording"
+import { ACTION_NAMES, type EnvironmentConfig, fromStateIndex, isGoal } from "@/lib/grid-env"
+import { agentGoals } from "@/lib/multi-agent-env"
+
+export const DEMONSTRATION_FILE_FORMAT = "rl-simulator/demonstrations"
+export const DEMONSTRATION_FILE_VERSION = 1
+
+// One move of a human-driven agent. States are toStateIndex() indices; x/y are
+// the same cells as grid coordinates.
+export interface DemonstrationTransition {
+  episode: number
+  seed: number
+  step: number
+  agent: number
+  state: number
+  x: number
+  y: number
+  action: number
+  reward: number
+  nextState: number
+  nextX: number
+  nextY: number
+  // The agent reached its goal or the episode hit its step limit.
+  done: boolean
+}
+
+export interface DemonstrationHeader {
+  format: typeof DEMONSTRATION_FILE_FORMAT
+  version: typeof DEMONSTRATION_FILE_VERSION
+  environment: EnvironmentFile
+  actions: string[]
+  episodes: number
+  transitions: number
+}
+
+// Column order of the CSV export.
+const CSV_COLUMNS: (keyof DemonstrationTransition)[] = [
+  "episode",
+  "seed",
+  "step",
+  "agent",
+  "state",
+  "x",
+  "y",
+  "action",
+  "reward",
+  "nextState",
+  "nextX",
+  "nextY",
+  "done",
+]
+
+export function isDemonstration(recording: EpisodeRecording): boolean {
+  return recording.humanAgents.length > 0 && recording.steps.length > 0
+}
+
+// Recordings made in `config`. Recordings keep the config they were played
+// in, so an edited environment does not pick up older episodes.
+export function recordingsFor(recordings: EpisodeRecording[], config: EnvironmentConfig): EpisodeRecording[] {
+  const key = JSON.stringify(config)
+  return recordings.filter(recording => JSON.stringify(recording.environment) === key)
+}
+
+// Human recordings made in `config`.
+export function demonstrationsFor(recordings: EpisodeRecording[], config: EnvironmentConfig): EpisodeRecording[] {
+  return recordingsFor(recordings, config).filter(isDemonstration)
+}
+
+// Transitions of the demonstrating agents: the human ones in a manual episode,
+// every agent in a policy-driven one. An agent that already stands on its goal
+// is waiting for the others, so those steps are left out.
+export function demonstrationTransitions(recordings: EpisodeRecording[]): DemonstrationTransition[] {
+  return recordings.flatMap(recording => {
+    const { environment } = recording
+    const agents = recording.humanAgents.length > 0 ? recording.humanAgents : recording.startStates.map((_, id) => id)
+    return recording.steps.flatMap((step, index) =>
+      agents.flatMap(agent => {
+        const goals = agentGoals(environment, agent)
+        const [x, y] = fromStateIndex(environment, step.states[agent])
+        if (isGoal(environment, [x, y], goals)) return []
+        const [nextX, nextY] = fromStateIndex(environment, step.nextStates[agent])
+        const lastStep = index === recording.steps.length - 1
+        return [
+          {
+            episode: recording.episode,
+            seed: recording.seed,
+            step: index,
+            agent,
+            state: step.states[agent],
+            x,
+            y,
+            action: step.actions[agent],
+            reward: step.rewards[agent],
+            nextState: step.nextStates[agent],
+            nextX,
+            nextY,
+            done: isGoal(environment, [nextX, nextY], goals) || (lastStep && recording.truncated),
+          },
+        ]
+      })
+    )
+  })
+}
+
+export function demonstrationHeader(config: EnvironmentConfig, recordings: EpisodeRecording[], transitions: number): DemonstrationHeader {
+  return {
+    format: DEMONSTRATION_FILE_FORMAT,
+    version: DEMONSTRATION_FILE_VERSION,
+    environment: toEnvironmentFile(config),
+    actions: ACTION_NAMES,
+    episodes: recordings.length,
+    transitions,
+  }
+}
+
+// The header is the first line; every following line is one transition.
+export function toDemonstrationJsonl(config: EnvironmentConfig, recordings: EpisodeRecording[]): string {
+  const transitions = demonstrationTransitions(recordings)
+  const header = demonstrationHeader(config, recordings, transitions.length)
+  return [header, ...transitions].map(line => JSON.stringify(line)).join("\n") + "\n"
+}
+
+// The header is written as `#` comment lines above the column names, which
+// most CSV readers skip with a comment option (e.g. pandas `comment="#"`).
+// `done` is written as 0 or 1.
+export function toDemonstrationCsv(config: EnvironmentConfig, recordings: EpisodeRecording[]): string {
+  const transitions = demonstrationTransitions(recordings)
+  const { environment, ...header } = demonstrationHeader(config, recordings, transitions.length)
+  const lines = [
+    ...Object.entries(header).map(([key, value]) => `# ${key}: ${Array.isArray(value) ? value.join(",") : value}`),
+    `# environment: ${JSON.stringify(environment)}`,
+    CSV_COLUMNS.join(","),
+    ...transitions.map(transition => CSV_COLUMNS.map(column => Number(transition[column])).join(",")),
+  ]
+  return lines.join("\n") + "\n"
+}
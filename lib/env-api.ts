@@ -0,0 +1,118 @@
+import { z } from "zod"
+import type { EnvSession } from "@/lib/env-sessions"
+import { parseEnvironmentFile, toEnvironmentFile } from "@/lib/environment-schema"
+import { ACTIONS, ACTION_NAMES, type EnvironmentConfig, environments, maxStepsFor, rewardsFor } from "@/lib/grid-env"
+import type { MultiAgentResetResult, MultiAgentStepResult } from "@/lib/multi-agent-env"
+import { MAX_SEED } from "@/lib/random"
+import { type ParseResult, formatIssues } from "@/lib/validation"
+
+// Request and response shapes of the /api/env step server. Observations are
+// toStateIndex() indices, one per agent, exactly as in the simulator.
+
+const seed = z.number().int("must be a whole number").min(0).max(MAX_SEED)
+
+const createRequestSchema = z
+  .object({
+    // Key of a built-in entry in `environments`, e.g. "gridworld".
+    environment: z.string().optional(),
+    // A full environment file, as exported from the simulator.
+    config: z.unknown().optional(),
+    seed: seed.optional(),
+  })
+  .strict()
+  .refine(body => (body.environment === undefined) !== (body.config === undefined), {
+    message: "must give either `environment` or `config`",
+  })
+
+const resetRequestSchema = z.object({ seed: seed.optional() }).strict()
+
+const action = z
+  .number()
+  .int("must be a whole number")
+  .min(0)
+  .max(ACTIONS.length - 1, `must be an action index from 0 to ${ACTIONS.length - 1} (${ACTION_NAMES.join(", ")})`)
+
+// `action` is shorthand for single-agent environments.
+const stepRequestSchema = z.union([z.object({ actions: z.array(action) }).strict(), z.object({ action }).strict()], {
+  errorMap: () => ({ message: "must be { actions: number[] } or { action: number }" }),
+})
+
+export interface CreateRequest {
+  environmentKey: string | null
+  config: EnvironmentConfig
+  seed?: number
+}
+
+function parseWith<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, json: unknown): ParseResult<T> {
+  const result = schema.safeParse(json)
+  return result.success ? { success: true, data: result.data } : { success: false, errors: formatIssues(result.error) }
+}
+
+export function parseCreateRequest(json: unknown): ParseResult<CreateRequest> {
+  const result = parseWith(createRequestSchema, json)
+  if (!result.success) return result
+  const { environment: key, config, seed } = result.data
+  if (key !== undefined) {
+    if (!Object.hasOwn(environments, key)) {
+      return { success: false, errors: [`environment: unknown environment "${key}"; expected one of ${Object.keys(environments).join(", ")}`] }
+    }
+    return { success: true, data: { environmentKey: key, config: environments[key], seed } }
+  }
+  const file = parseEnvironmentFile(config)
+  if (!file.success) return { success: false, errors: file.errors.map(error => `config.${error}`) }
+  return { success: true, data: { environmentKey: null, config: file.data, seed } }
+}
+
+export function parseResetRequest(json: unknown): ParseResult<{ seed?: number }> {
+  return parseWith(resetRequestSchema, json ?? {})
+}
+
+export function parseStepRequest(json: unknown, agentCount: number): ParseResult<number[]> {
+  const result = parseWith(stepRequestSchema, json)
+  if (!result.success) return result
+  const actions = "actions" in result.data ? result.data.actions : [result.data.action]
+  if (actions.length !== agentCount) {
+    return { success: false, errors: [`actions: expected ${agentCount} actions (one per agent), got ${actions.length}`] }
+  }
+  return { success: true, data: actions }
+}
+
+// Reads a JSON body; an empty body counts as `null`.
+export async function readJson(request: Request): Promise<ParseResult<unknown>> {
+  const text = await request.text()
+  if (text.trim() === "") return { success: true, data: null }
+  try {
+    return { success: true, data: JSON.parse(text) }
+  } catch (error) {
+    return { success: false, errors: [`Not valid JSON: ${(error as Error).message}`] }
+  }
+}
+
+export function errorResponse(status: number, error: string, details?: string[]): Response {
+  return Response.json(details ? { error, details } : { error }, { status })
+}
+
+export function sessionResponse(session: EnvSession, reset: MultiAgentResetResult & { episode: number; seed: number }) {
+  const { config } = session.env
+  return {
+    id: session.id,
+    environmentKey: session.environmentKey,
+    environment: toEnvironmentFile(config),
+    agents: session.env.agentCount,
+    stateCount: config.size.x * config.size.y,
+    actions: ACTION_NAMES,
+    maxSteps: maxStepsFor(config),
+    discount: rewardsFor(config).discount,
+    // Episode seeds derive from this; `seed` below is the first episode's.
+    sessionSeed: session.seed,
+    ...resetResponse(reset),
+  }
+}
+
+export function resetResponse({ observations, info, episode, seed }: MultiAgentResetResult & { episode: number; seed: number }) {
+  return { episode, seed, observations, info }
+}
+
+export function stepResponse(session: EnvSession, { observations, rewards, terminated, truncated, info }: MultiAgentStepResult) {
+  return { observations, rewards, terminated, truncated, done: session.env.done, steps: session.env.steps, info }
+}
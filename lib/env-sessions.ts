@@ -0,0 +1,66 @@
+import type { EnvironmentConfig } from "@/lib/grid-env"
+import { MultiAgentGridEnv, type MultiAgentResetResult, type MultiAgentStepResult } from "@/lib/multi-agent-env"
+import { deriveSeed, randomSeed } from "@/lib/random"
+
+// Oldest idle sessions are dropped beyond this many.
+export const MAX_SESSIONS = 100
+
+// A remote client's environment. Episodes are seeded like the live view:
+// episode k plays deriveSeed(seed, k) unless reset() is given its own seed.
+export interface EnvSession {
+  id: string
+  environmentKey: string | null
+  env: MultiAgentGridEnv
+  seed: number
+  episode: number
+  lastUsed: number
+}
+
+// Kept on globalThis so sessions survive module reloads in `next dev`. Only
+// one server process holds them; they are lost on restart.
+const globalStore = globalThis as typeof globalThis & { rlSimulatorSessions?: Map<string, EnvSession> }
+const sessions = (globalStore.rlSimulatorSessions ??= new Map<string, EnvSession>())
+
+function evictIdleSessions() {
+  while (sessions.size >= MAX_SESSIONS) {
+    let oldest: EnvSession | null = null
+    for (const session of sessions.values()) {
+      if (!oldest || session.lastUsed < oldest.lastUsed) oldest = session
+    }
+    if (!oldest) return
+    sessions.delete(oldest.id)
+  }
+}
+
+export function createSession(config: EnvironmentConfig, environmentKey: string | null, seed: number = randomSeed()): EnvSession {
+  evictIdleSessions()
+  const session: EnvSession = {
+    id: crypto.randomUUID(),
+    environmentKey,
+    env: new MultiAgentGridEnv(config),
+    seed,
+    episode: 0,
+    lastUsed: Date.now(),
+  }
+  sessions.set(session.id, session)
+  return session
+}
+
+export function getSession(id: string): EnvSession | undefined {
+  const session = sessions.get(id)
+  if (session) session.lastUsed = Date.now()
+  return session
+}
+
+// Starts the session's next episode; returns the seed it was played with.
+export function resetSession(session: EnvSession, seed?: number): MultiAgentResetResult & { episode: number; seed: number } {
+  session.episode += 1
+  const episodeSeed = seed ?? deriveSeed(session.seed, session.episode)
+  return { ...session.env.reset(episodeSeed), episode: session.episode, seed: episodeSeed }
+}
+
+// Same engine call as the simulator's own steps, so remote and visualised
+// episodes follow identical dynamics and rewards.
+export function stepSession(session: EnvSession, actions: number[]): MultiAgentStepResult {
+  return session.env.step(actions)
+}
@@ -0,0 +1,112 @@
+import { type EnvironmentConfig, type Position, samePosition, startPositions } from "@/lib/grid-env"
+
+export type EditorTool = "obstacle" | "goal" | "start" | "slippery" | "reward" | "erase"
+
+export const MIN_GRID_SIZE = 2
+export const MAX_GRID_SIZE = 20
+// Headless runs play a whole episode without yielding, so the step limit is
+// capped to keep them from freezing the page.
+export const MAX_STEP_LIMIT = 10_000
+// Reward painted by the reward tool until the user picks another value.
+export const DEFAULT_TILE_REWARD = -1
+
+const without = (positions: Position[], cell: Position) => positions.filter(p => !samePosition(p, cell))
+const contains = (positions: Position[], cell: Position) => positions.some(p => samePosition(p, cell))
+
+// A single start is stored as a plain position, several as a list, matching
+// the built-in environment literals.
+function withStarts(config: EnvironmentConfig, starts: Position[]): EnvironmentConfig {
+  return { ...config, start: starts.length === 1 ? starts[0] : starts }
+}
+
+// Configs without slippery tiles keep omitting the field.
+function withoutSlippery(config: EnvironmentConfig, cell: Position): EnvironmentConfig {
+  return config.slippery ? { ...config, slippery: without(config.slippery, cell) } : config
+}
+
+function withoutRewardTile(config: EnvironmentConfig, cell: Position): EnvironmentConfig {
+  return config.rewardTiles ? { ...config, rewardTiles: config.rewardTiles.filter(tile => !samePosition(tile.position, cell)) } : config
+}
+
+// Applies an editor tool to one cell. Obstacles, goals and starts are mutually
+// exclusive, clicking a cell that already holds the tool's item removes it, and
+// the last remaining start can only be moved, never removed. Slippery tiles are
+// a floor property, so they sit under goals and starts but not obstacles.
+// Reward tiles follow the same rule; a tile painted on a goal sets that goal's
+// reward, so adding or removing the goal drops it.
+export function applyEditorTool(
+  config: EnvironmentConfig,
+  tool: EditorTool,
+  cell: Position,
+  tileReward = DEFAULT_TILE_REWARD
+): EnvironmentConfig {
+  const [x, y] = cell
+  if (x < 0 || y < 0 || x >= config.size.x || y >= config.size.y) return config
+  const starts = startPositions(config)
+  const cleared = {
+    ...config,
+    obstacles: without(config.obstacles, cell),
+    goals: without(config.goals, cell),
+  }
+  const remainingStarts = without(starts, cell)
+  const slippery = config.slippery ?? []
+
+  switch (tool) {
+    case "obstacle":
+    case "goal": {
+      const key = tool === "obstacle" ? "obstacles" : "goals"
+      if (contains(config[key], cell)) {
+        const removed = { ...config, [key]: without(config[key], cell) }
+        return tool === "goal" ? withoutRewardTile(removed, cell) : removed
+      }
+      if (remainingStarts.length === 0) return config
+      const placed = withoutRewardTile(withStarts({ ...cleared, [key]: [...cleared[key], [x, y]] }, remainingStarts), cell)
+      return tool === "obstacle" ? withoutSlippery(placed, cell) : placed
+    }
+    case "start":
+      if (contains(starts, cell)) return remainingStarts.length > 0 ? withStarts(config, remainingStarts) : config
+      return withStarts(cleared, [...starts, [x, y]])
+    case "slippery":
+      if (contains(slippery, cell)) return withoutSlippery(config, cell)
+      return { ...config, obstacles: without(config.obstacles, cell), slippery: [...slippery, [x, y]] }
+    case "reward":
+      if (config.rewardTiles?.some(tile => samePosition(tile.position, cell))) return withoutRewardTile(config, cell)
+      return {
+        ...config,
+        obstacles: without(config.obstacles, cell),
+        rewardTiles: [...(config.rewardTiles ?? []), { position: [x, y], reward: tileReward }],
+      }
+    case "erase":
+      return withoutRewardTile(withoutSlippery(withStarts(cleared, remainingStarts.length > 0 ? remainingStarts : starts), cell), cell)
+  }
+}
+
+// Replaces every start with `cell`.
+function moveStart(config: EnvironmentConfig, cell: Position): EnvironmentConfig {
+  const cleared = { ...config, obstacles: without(config.obstacles, cell), goals: without(config.goals, cell) }
+  return withStarts(cleared, [[cell[0], cell[1]]])
+}
+
+export function resizeEnvironment(config: EnvironmentConfig, size: { x: number; y: number }): EnvironmentConfig {
+  const clamp = (n: number) => Math.max(MIN_GRID_SIZE, Math.min(MAX_GRID_SIZE, Math.round(n)))
+  const next = { x: clamp(size.x), y: clamp(size.y) }
+  const inside = ([x, y]: Position) => x < next.x && y < next.y
+  const starts = startPositions(config).filter(inside)
+  const resized = {
+    ...config,
+    size: next,
+    obstacles: config.obstacles.filter(inside),
+    goals: config.goals.filter(inside),
+    ...(config.slippery && { slippery: config.slippery.filter(inside) }),
+    ...(config.rewardTiles && { rewardTiles: config.rewardTiles.filter(tile => inside(tile.position)) }),
+  }
+  return starts.length > 0 ? withStarts(resized, starts) : moveStart(resized, [0, 0])
+}
+
+// Problems that keep a draft from being saved; empty when it is playable.
+export function environmentProblems(config: EnvironmentConfig): string[] {
+  const problems: string[] = []
+  if (!config.name.trim()) problems.push("Give the environment a name.")
+  if (config.goals.length === 0) problems.push("Place at least one goal.")
+  return problems
+}
@@ -0,0 +1,109 @@
+import { z } from "zod"
+import { MAX_GRID_SIZE, MAX_STEP_LIMIT, MIN_GRID_SIZE } from "@/lib/environment-editor"
+import { type EnvironmentConfig, type Position, samePosition } from "@/lib/grid-env"
+import { type ParseResult, formatIssues } from "@/lib/validation"
+
+// Shareable environment files. Bump ENVIRONMENT_FILE_VERSION whenever a
+// change would make older readers misinterpret a file; new optional fields do
+// not need a bump.
+export const ENVIRONMENT_FILE_FORMAT = "rl-simulator/environment"
+export const ENVIRONMENT_FILE_VERSION = 1
+
+const cell = z.number().int("must be a whole number").nonnegative("must be 0 or greater")
+const position = z.tuple([cell, cell], { invalid_type_error: "must be an [x, y] pair" })
+const probability = z.number().min(0, "must be between 0 and 1").max(1, "must be between 0 and 1")
+const gridSize = z
+  .number()
+  .int("must be a whole number")
+  .min(MIN_GRID_SIZE, `must be at least ${MIN_GRID_SIZE}`)
+  .max(MAX_GRID_SIZE, `must be at most ${MAX_GRID_SIZE}`)
+const stepLimit = z.number().int("must be a whole number").positive("must be positive").max(MAX_STEP_LIMIT, `must be at most ${MAX_STEP_LIMIT}`)
+const reward = z.number().finite("must be a finite number")
+
+const rewardsSchema = z.object({ step: reward, obstacle: reward, goal: reward, discount: probability }).partial().strict()
+
+const rewardTileSchema = z.object({ position, reward }).strict()
+
+const dynamicsSchema = z
+  .object({ slipProbability: probability, actionNoise: probability, tileSlipProbability: probability })
+  .partial()
+  .strict()
+
+export const environmentFileSchema = z
+  .object({
+    format: z.literal(ENVIRONMENT_FILE_FORMAT).optional(),
+    version: z.literal(ENVIRONMENT_FILE_VERSION, {
+      errorMap: () => ({ message: `must be ${ENVIRONMENT_FILE_VERSION}; this simulator cannot read other versions` }),
+    }),
+    name: z.string().trim().min(1, "must not be empty"),
+    size: z.object({ x: gridSize, y: gridSize }),
+    obstacles: z.array(position).default([]),
+    goals: z.array(position).min(1, "must contain at least one goal"),
+    start: z.union([position, z.array(position).min(1, "must contain at least one start")], {
+      errorMap: () => ({ message: "must be an [x, y] pair or a list of them" }),
+    }),
+    rewards: rewardsSchema.optional(),
+    maxSteps: stepLimit.optional(),
+    dynamics: dynamicsSchema.optional(),
+    slippery: z.array(position).optional(),
+    rewardTiles: z.array(rewardTileSchema).optional(),
+  })
+  .superRefine((file, ctx) => {
+    const starts = (Array.isArray(file.start[0]) ? file.start : [file.start]) as Position[]
+    const startPath = Array.isArray(file.start[0]) ? (index: number) => ["start", index] : () => ["start"]
+    const checkInside = (positions: Position[], path: (index: number) => (string | number)[]) =>
+      positions.forEach(([x, y], index) => {
+        if (x >= file.size.x || y >= file.size.y) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: path(index), message: `lies outside the ${file.size.x}x${file.size.y} grid` })
+        }
+      })
+    checkInside(file.obstacles, index => ["obstacles", index])
+    checkInside(file.goals, index => ["goals", index])
+    checkInside(starts, startPath)
+    checkInside(file.slippery ?? [], index => ["slippery", index])
+    checkInside(
+      (file.rewardTiles ?? []).map(tile => tile.position),
+      index => ["rewardTiles", index, "position"]
+    )
+
+    file.goals.forEach((goal, index) => {
+      if (file.obstacles.some(obstacle => samePosition(obstacle, goal))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["goals", index], message: "is covered by an obstacle" })
+      }
+    })
+    file.slippery?.forEach((tile, index) => {
+      if (file.obstacles.some(obstacle => samePosition(obstacle, tile))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["slippery", index], message: "is covered by an obstacle" })
+      }
+    })
+    file.rewardTiles?.forEach((tile, index) => {
+      const path = ["rewardTiles", index, "position"]
+      if (file.obstacles.some(obstacle => samePosition(obstacle, tile.position))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: "is covered by an obstacle" })
+      }
+      if (file.rewardTiles?.findIndex(other => samePosition(other.position, tile.position)) !== index) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: "duplicates another reward tile" })
+      }
+    })
+    starts.forEach((start, index) => {
+      if (file.obstacles.some(obstacle => samePosition(obstacle, start))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: startPath(index), message: "is covered by an obstacle" })
+      }
+      if (starts.findIndex(other => samePosition(other, start)) !== index) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: startPath(index), message: "duplicates another start" })
+      }
+    })
+  })
+
+export type EnvironmentFile = z.infer<typeof environmentFileSchema>
+
+export function parseEnvironmentFile(json: unknown): ParseResult<EnvironmentConfig> {
+  const result = environmentFileSchema.safeParse(json)
+  if (!result.success) return { success: false, errors: formatIssues(result.error) }
+  const { format: _format, version: _version, ...config } = result.data
+  return { success: true, data: config as EnvironmentConfig }
+}
+
+export function toEnvironmentFile(config: EnvironmentConfig): EnvironmentFile {
+  return { format: ENVIRONMENT_FILE_FORMAT, version: ENVIRONMENT_FILE_VERSION, ...config }
+}
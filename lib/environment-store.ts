@@ -0,0 +1,43 @@
+import { ENVIRONMENT_FILE_VERSION, parseEnvironmentFile, toEnvironmentFile } from "@/lib/environment-schema"
+import type { EnvironmentConfig } from "@/lib/grid-env"
+
+const STORAGE_KEY = "rl-simulator.custom-environments"
+
+export function customEnvironmentKey(name: string): string {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")
+  return `custom_${slug || "untitled"}`
+}
+
+export function isCustomEnvironmentKey(key: string): boolean {
+  return key.startsWith("custom_")
+}
+
+// Custom environments saved from the editor, keyed like the built-in
+// `environments` record. Entries are stored in the environment file format;
+// unreadable storage or entries that fail validation are skipped.
+export function loadCustomEnvironments(): Record<string, EnvironmentConfig> {
+  if (typeof window === "undefined") return {}
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    const entries: Record<string, unknown> = stored ? JSON.parse(stored) : {}
+    const custom: Record<string, EnvironmentConfig> = {}
+    Object.entries(entries).forEach(([key, entry]) => {
+      // Entries saved before the file format existed carry no version.
+      const result = parseEnvironmentFile({ version: ENVIRONMENT_FILE_VERSION, ...(entry as object) })
+      if (result.success) {
+        custom[key] = result.data
+      } else {
+        console.error(`Skipping stored environment "${key}":`, result.errors)
+      }
+    })
+    return custom
+  } catch (error) {
+    console.error("Error reading custom environments:", error)
+    return {}
+  }
+}
+
+export function saveCustomEnvironments(custom: Record<string, EnvironmentConfig>) {
+  const entries = Object.fromEntries(Object.entries(custom).map(([key, config]) => [key, toEnvironmentFile(config)]))
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(entries))
+}
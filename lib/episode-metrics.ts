@@ -0,0 +1,62 @@
+import type { EpisodeRecording } from "@/lib/episode-recording"
+import { rewardsFor } from "@/lib/grid-env"
+
+// Episodes used for the rolling goal and timeout rates and moving-average length.
+export const ROLLING_WINDOW = 10
+
+// Summary of one finished episode. `policyId` names what was driving the
+// agents ("random" when no policy was loaded).
+export interface EpisodeRecord {
+  episode: number
+  seed: number
+  return: number
+  // Summed over agents, each discounted by the environment's reporting discount.
+  discountedReturn: number
+  agentReturns: number[]
+  length: number
+  // Every agent reached its goal.
+  terminated: boolean
+  // The step limit ran out first.
+  truncated: boolean
+  collisions: number
+  policyId: string
+}
+
+export function discountedReturn(rewards: number[], discount: number): number {
+  return rewards.reduceRight((total, reward) => reward + discount * total, 0)
+}
+
+export function episodeRecord(recording: EpisodeRecording, policyId: string): EpisodeRecord {
+  const agentRewards = recording.startStates.map((_, id) => recording.steps.map(step => step.rewards[id]))
+  const agentReturns = agentRewards.map(rewards => rewards.reduce((a, b) => a + b, 0))
+  const { discount } = rewardsFor(recording.environment)
+  return {
+    episode: recording.episode,
+    seed: recording.seed,
+    return: agentReturns.reduce((a, b) => a + b, 0),
+    discountedReturn: agentRewards.reduce((sum, rewards) => sum + discountedReturn(rewards, discount), 0),
+    agentReturns,
+    length: recording.steps.length,
+    terminated: recording.terminated,
+    truncated: recording.truncated,
+    collisions: recording.steps.reduce((count, step) => count + step.collided.filter(Boolean).length, 0),
+    policyId,
+  }
+}
+
+// Mean of each value and up to `window - 1` values before it.
+export function movingAverage(values: number[], window = ROLLING_WINDOW): number[] {
+  return values.map((_, index) => {
+    const slice = values.slice(Math.max(0, index - window + 1), index + 1)
+    return slice.reduce((a, b) => a + b, 0) / slice.length
+  })
+}
+
+// Share of recent episodes matching `outcome`, e.g. record => record.truncated.
+export function rollingRate(records: EpisodeRecord[], outcome: (record: EpisodeRecord) => boolean, window = ROLLING_WINDOW): number[] {
+  return movingAverage(records.map(record => (outcome(record) ? 1 : 0)), window)
+}
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0
+}
@@ -0,0 +1,109 @@
+import { type EnvironmentConfig, type Position, fromStateIndex, samePosition, toStateIndex } from "@/lib/grid-env"
+import type { MultiAgentGridEnv, MultiAgentStepResult } from "@/lib/multi-agent-env"
+import { type Policy, actionProbabilities, actionValues, selectAction } from "@/lib/policy"
+import type { RemoteDecision } from "@/lib/remote-policy"
+
+// One joint step; every array is indexed by agent id. `qValues` holds what the
+// policy reported for the agent's state (action values or probabilities), or
+// null when the action was random or came from a human. `collided` marks moves
+// into an obstacle.
+export interface RecordedStep {
+  states: number[]
+  actions: number[]
+  rewards: number[]
+  nextStates: number[]
+  qValues: (number[] | null)[]
+  collided: boolean[]
+}
+
+// `seed` is the episode's own seed: resetting the environment with it and
+// sampling actions from deriveSeed(seed, ACTION_STREAM) reproduces the episode.
+export interface EpisodeRecording {
+  episode: number
+  seed: number
+  environment: EnvironmentConfig
+  startStates: number[]
+  // Agents driven from the keyboard instead of by the policy.
+  humanAgents: number[]
+  steps: RecordedStep[]
+  // False when the episode was reset before it ended.
+  finished: boolean
+  terminated: boolean
+  truncated: boolean
+}
+
+export function createRecording(
+  episode: number,
+  environment: EnvironmentConfig,
+  startStates: number[],
+  seed: number,
+  humanAgents: number[] = []
+): EpisodeRecording {
+  return { episode, seed, environment, startStates, humanAgents, steps: [], finished: false, terminated: false, truncated: false }
+}
+
+// Picks every agent's action, steps the environment and appends the step to
+// the recording, closing it when the episode ends. Shared by the live view and
+// headless runs so both play an episode identically for the same seed.
+// `humanAction` is taken by the recording's human agents; the policy is not
+// consulted for them, so the action stream is only drawn for the others.
+// `decisions` are a remote policy's answers for this step, taken as given by
+// the agents that have one.
+export function stepAndRecord(
+  env: MultiAgentGridEnv,
+  policy: Policy | null,
+  recording: EpisodeRecording,
+  random: () => number,
+  humanAction?: number,
+  decisions: (RemoteDecision | null)[] = []
+): MultiAgentStepResult {
+  const states = env.positions.map(position => toStateIndex(env.config, position))
+  const isHuman = (id: number) => humanAction !== undefined && recording.humanAgents.includes(id)
+  const qValues = states.map((state, id) => {
+    if (isHuman(id)) return null
+    if (decisions[id]) return decisions[id].qValues ?? null
+    return actionValues(policy, env.config, state, id) ?? actionProbabilities(policy, env.config, state, id) ?? null
+  })
+  const actions = states.map((state, id) => {
+    if (humanAction !== undefined && isHuman(id)) return humanAction
+    return decisions[id]?.action ?? selectAction(policy, env.config, state, id, random)
+  })
+  const result = env.step(actions)
+  const { observations, rewards, truncated, info } = result
+  recording.steps.push({ states, actions, rewards, nextStates: observations, qValues, collided: info.map(({ collided }) => collided) })
+  // The engine only ends an episode early when every agent is done.
+  if (env.done) Object.assign(recording, { finished: true, terminated: !truncated, truncated })
+  return result
+}
+
+// Frame 0 is the start; frame k is the state after k steps.
+export function frameCount(recording: EpisodeRecording): number {
+  return recording.steps.length + 1
+}
+
+export function statesAtFrame(recording: EpisodeRecording, frame: number): number[] {
+  return frame <= 0 ? recording.startStates : recording.steps[Math.min(frame, recording.steps.length) - 1].nextStates
+}
+
+export function positionsAtFrame(recording: EpisodeRecording, frame: number): Position[] {
+  return statesAtFrame(recording, frame).map(state => fromStateIndex(recording.environment, state))
+}
+
+// Per-agent path from the start up to `frame`, without repeated cells from
+// blocked moves.
+export function trajectoriesUntil(recording: EpisodeRecording, frame: number): Position[][] {
+  const paths = positionsAtFrame(recording, 0).map(position => [position])
+  for (let f = 1; f <= frame && f <= recording.steps.length; f++) {
+    positionsAtFrame(recording, f).forEach((position, id) => {
+      const last = paths[id][paths[id].length - 1]
+      if (!samePosition(last, position)) paths[id].push(position)
+    })
+  }
+  return paths
+}
+
+export function describeOutcome(recording: EpisodeRecording): string {
+  if (recording.terminated) return "goal"
+  if (recording.truncated) return "timeout"
+  return "reset"
+}
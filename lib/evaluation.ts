@@ -0,0 +1,146 @@
+import { type EpisodeRecord, episodeRecord, mean } from "@/lib/episode-metrics"
+import { createRecording, stepAndRecord } from "@/lib/episode-recording"
+import type { EnvironmentConfig } from "@/lib/grid-env"
+import { MultiAgentGridEnv } from "@/lib/multi-agent-env"
+import type { Policy } from "@/lib/policy"
+import { ACTION_STREAM, createRandom, deriveSeed } from "@/lib/random"
+
+export const EVALUATION_FILE_FORMAT = "rl-simulator/evaluation"
+
+// Upper bound on histogram bars; wider ranges are grouped into equal bins.
+const MAX_HISTOGRAM_BINS = 20
+
+export interface EvaluationOptions {
+  episodes: number
+  // Session seed; episode k uses deriveSeed(seed, k) like the live view.
+  seed: number
+  policyId: string
+}
+
+export interface HistogramBin {
+  // Inclusive bounds.
+  from: number
+  to: number
+  count: number
+}
+
+export interface EvaluationSummary {
+  episodes: number
+  meanReturn: number
+  medianReturn: number
+  stdReturn: number
+  meanDiscountedReturn: number
+  successRate: number
+  // 95% Wilson score interval for the success rate.
+  successInterval: [number, number]
+  timeoutRate: number
+  meanLength: number
+  lengthHistogram: HistogramBin[]
+}
+
+export interface EvaluationResult {
+  format: typeof EVALUATION_FILE_FORMAT
+  environment: string
+  policyId: string
+  seed: number
+  summary: EvaluationSummary
+  episodes: EpisodeRecord[]
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+// Sample standard deviation; zero for fewer than two values.
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0
+  const average = mean(values)
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1))
+}
+
+// Stays inside [0, 1] and behaves at 0% and 100%, unlike the normal
+// approximation.
+export function wilsonInterval(successes: number, trials: number, z = 1.96): [number, number] {
+  if (trials === 0) return [0, 1]
+  const p = successes / trials
+  const denominator = 1 + (z * z) / trials
+  const centre = (p + (z * z) / (2 * trials)) / denominator
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + (z * z) / (4 * trials * trials))) / denominator
+  return [Math.max(0, centre - margin), Math.min(1, centre + margin)]
+}
+
+// Histogram of whole numbers, one bin per value when the range allows.
+export function histogram(values: number[], maxBins = MAX_HISTOGRAM_BINS): HistogramBin[] {
+  if (values.length === 0) return []
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const width = Math.ceil((max - min + 1) / maxBins)
+  const bins: HistogramBin[] = []
+  for (let from = min; from <= max; from += width) bins.push({ from, to: from + width - 1, count: 0 })
+  values.forEach(value => bins[Math.floor((value - min) / width)].count++)
+  return bins
+}
+
+export function summarizeEpisodes(records: EpisodeRecord[]): EvaluationSummary {
+  const returns = records.map(record => record.return)
+  const successes = records.filter(record => record.terminated).length
+  const lengths = records.map(record => record.length)
+  return {
+    episodes: records.length,
+    meanReturn: mean(returns),
+    medianReturn: median(returns),
+    stdReturn: standardDeviation(returns),
+    meanDiscountedReturn: mean(records.map(record => record.discountedReturn)),
+    successRate: records.length > 0 ? successes / records.length : 0,
+    successInterval: wilsonInterval(successes, records.length),
+    timeoutRate: records.length > 0 ? records.filter(record => record.truncated).length / records.length : 0,
+    meanLength: mean(lengths),
+    lengthHistogram: histogram(lengths),
+  }
+}
+
+// Plays episodes without rendering, one per runEpisode() call so callers can
+// spread a long evaluation over several ticks.
+export class PolicyEvaluator {
+  readonly config: EnvironmentConfig
+  readonly policy: Policy | null
+  readonly options: EvaluationOptions
+  readonly records: EpisodeRecord[] = []
+
+  constructor(config: EnvironmentConfig, policy: Policy | null, options: EvaluationOptions) {
+    this.config = config
+    this.policy = policy
+    this.options = options
+  }
+
+  get finished(): boolean {
+    return this.records.length >= this.options.episodes
+  }
+
+  runEpisode(): EpisodeRecord {
+    const episode = this.records.length + 1
+    const env = new MultiAgentGridEnv(this.config)
+    const episodeSeed = deriveSeed(this.options.seed, episode)
+    const { observations } = env.reset(episodeSeed)
+    const random = createRandom(deriveSeed(episodeSeed, ACTION_STREAM))
+    const recording = createRecording(episode, this.config, observations, episodeSeed)
+    while (!env.done) stepAndRecord(env, this.policy, recording, random)
+    const record = episodeRecord(recording, this.options.policyId)
+    this.records.push(record)
+    return record
+  }
+
+  result(): EvaluationResult {
+    return {
+      format: EVALUATION_FILE_FORMAT,
+      environment: this.config.name,
+      policyId: this.options.policyId,
+      seed: this.options.seed,
+      summary: summarizeEpisodes(this.records),
+      episodes: this.records,
+    }
+  }
+}
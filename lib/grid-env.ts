@@ -0,0 +1,259 @@
+// Headless grid-world engine. Holds the agent position itself so episodes can
+// be run without a renderer; the React app only mirrors the state it returns.
+
+import { createRandom } from "@/lib/random"
+
+export type Position = [number, number]
+
+export interface RewardConfig {
+  step: number
+  obstacle: number
+  goal: number
+  // Only used to report discounted returns; 1 leaves them undiscounted.
+  discount: number
+}
+
+// Reward for entering a cell. On a goal it replaces the goal reward, so goals
+// can be worth different amounts; anywhere else it is added to the step
+// reward every time an agent enters, e.g. negative for lava or positive for a
+// bonus.
+export interface RewardTile {
+  position: Position
+  reward: number
+}
+
+// Noise is applied first, then slipping, to whatever action results.
+export interface DynamicsConfig {
+  // Chance that a move veers into one of the two perpendicular directions.
+  slipProbability: number
+  // Chance that the chosen action is replaced by a uniformly random one.
+  actionNoise: number
+  // Slip chance on the environment's slippery tiles, used there instead of
+  // slipProbability.
+  tileSlipProbability: number
+}
+
+export interface EnvironmentConfig {
+  name: string
+  size: { x: number; y: number }
+  obstacles: Position[]
+  goals: Position[]
+  start: Position | Position[]
+  rewards?: Partial<RewardConfig>
+  maxSteps?: number
+  dynamics?: Partial<DynamicsConfig>
+  slippery?: Position[]
+  rewardTiles?: RewardTile[]
+}
+
+// Up, Down, Left, Right as (dx, dy) on the grid.
+export const ACTIONS: Position[] = [[0, -1], [0, 1], [-1, 0], [1, 0]]
+export const ACTION_NAMES = ["Up", "Down", "Left", "Right"]
+
+export const DEFAULT_REWARDS: RewardConfig = {
+  step: -0.01, // Cost of living
+  obstacle: -1.0,
+  goal: 10.0,
+  discount: 1,
+}
+export const MAX_EPISODE_STEPS = 100
+
+// Deterministic everywhere except slippery tiles, which behave like
+// FrozenLake's ice: the intended move and each perpendicular one are equally
+// likely.
+export const DEFAULT_DYNAMICS: DynamicsConfig = {
+  slipProbability: 0,
+  actionNoise: 0,
+  tileSlipProbability: 2 / 3,
+}
+
+// The two directions at right angles to each action, indexed like ACTIONS.
+const PERPENDICULAR_ACTIONS = [[2, 3], [2, 3], [0, 1], [0, 1]]
+
+export const environments: Record<string, EnvironmentConfig> = {
+  gridworld: { name: "Grid World", size: { x: 4, y: 4 }, obstacles: [[1, 1], [2, 2]], goals: [[3, 3]], start: [0, 0] },
+  maze: { name: "Maze Environment", size: { x: 6, y: 6 }, obstacles: [[1, 0], [1, 1], [1, 2], [3, 3], [3, 4], [4, 4]], goals: [[5, 5]], start: [0, 0] },
+  multiagent: { name: "Multi-Agent Arena", size: { x: 8, y: 8 }, obstacles: [[2, 2], [3, 3], [4, 4], [5, 5]], goals: [[0, 7], [7, 0]], start: [[0, 0], [7, 7]] },
+}
+
+export interface StepInfo {
+  position: Position
+  steps: number
+  collided: boolean
+  goalReached: boolean
+  // The action the dynamics actually applied; differs from the chosen one
+  // after noise or a slip.
+  executedAction: number
+}
+
+export interface StepResult {
+  observation: number
+  reward: number
+  terminated: boolean
+  truncated: boolean
+  info: StepInfo
+}
+
+export interface ResetResult {
+  observation: number
+  info: StepInfo
+}
+
+export function rewardsFor(config: EnvironmentConfig): RewardConfig {
+  return { ...DEFAULT_REWARDS, ...config.rewards }
+}
+
+export function maxStepsFor(config: EnvironmentConfig): number {
+  return config.maxSteps ?? MAX_EPISODE_STEPS
+}
+
+export function dynamicsFor(config: EnvironmentConfig): DynamicsConfig {
+  return { ...DEFAULT_DYNAMICS, ...config.dynamics }
+}
+
+export function startPositions(config: EnvironmentConfig): Position[] {
+  return Array.isArray(config.start[0]) ? (config.start as Position[]) : [config.start as Position]
+}
+
+export function toStateIndex(config: EnvironmentConfig, [x, y]: Position): number {
+  return y * config.size.x + x
+}
+
+export function fromStateIndex(config: EnvironmentConfig, index: number): Position {
+  return [index % config.size.x, Math.floor(index / config.size.x)]
+}
+
+export function samePosition(a: Position, b: Position): boolean {
+  return a[0] === b[0] && a[1] === b[1]
+}
+
+export function isObstacle(config: EnvironmentConfig, [x, y]: Position): boolean {
+  return config.obstacles.some(obs => obs[0] === x && obs[1] === y)
+}
+
+export function isGoal(config: EnvironmentConfig, [x, y]: Position, goals: Position[] = config.goals): boolean {
+  return goals.some(g => g[0] === x && g[1] === y)
+}
+
+export function rewardTileAt(config: EnvironmentConfig, [x, y]: Position): RewardTile | undefined {
+  return config.rewardTiles?.find(({ position }) => position[0] === x && position[1] === y)
+}
+
+export function isSlippery(config: EnvironmentConfig, [x, y]: Position): boolean {
+  return (config.slippery ?? []).some(tile => tile[0] === x && tile[1] === y)
+}
+
+export function isStochastic(config: EnvironmentConfig): boolean {
+  const dynamics = dynamicsFor(config)
+  const slippery = (config.slippery ?? []).length > 0 && dynamics.tileSlipProbability > 0
+  return dynamics.slipProbability > 0 || dynamics.actionNoise > 0 || slippery
+}
+
+// Probability of each action actually being applied when `action` is chosen
+// at `position`, indexed like ACTIONS.
+export function actionOutcomes(config: EnvironmentConfig, position: Position, action: number): number[] {
+  const dynamics = dynamicsFor(config)
+  const slip = isSlippery(config, position) ? dynamics.tileSlipProbability : dynamics.slipProbability
+  const noisy = ACTIONS.map((_, a) => (a === action ? 1 - dynamics.actionNoise : 0) + dynamics.actionNoise / ACTIONS.length)
+  const outcomes = ACTIONS.map(() => 0)
+  noisy.forEach((probability, a) => {
+    outcomes[a] += probability * (1 - slip)
+    PERPENDICULAR_ACTIONS[a].forEach(side => (outcomes[side] += (probability * slip) / 2))
+  })
+  return outcomes
+}
+
+// Samples the applied action. Deterministic cells draw no random number.
+export function executedAction(config: EnvironmentConfig, position: Position, action: number, random: () => number): number {
+  const outcomes = actionOutcomes(config, position, action)
+  if (outcomes[action] === 1) return action
+  let threshold = random()
+  for (let a = 0; a < outcomes.length; a++) {
+    threshold -= outcomes[a]
+    if (threshold < 0) return a
+  }
+  return action
+}
+
+export interface Transition {
+  position: Position
+  reward: number
+  collided: boolean
+  goalReached: boolean
+}
+
+// Applies one action from `position`. Moves are clamped to the grid and
+// bumping into an obstacle leaves the agent where it was. `goals` narrows the
+// cells that end the episode, e.g. to one agent's own goal.
+export function transition(config: EnvironmentConfig, position: Position, action: number, goals: Position[] = config.goals): Transition {
+  const [dx, dy] = ACTIONS[action]
+  const target: Position = [
+    Math.max(0, Math.min(config.size.x - 1, position[0] + dx)),
+    Math.max(0, Math.min(config.size.y - 1, position[1] + dy)),
+  ]
+  const rewards = rewardsFor(config)
+  if (isObstacle(config, target)) {
+    return { position, reward: rewards.obstacle, collided: true, goalReached: false }
+  }
+  const goalReached = isGoal(config, target, goals)
+  // A tile on someone else's goal is that goal's reward, not a bonus.
+  const tile = rewardTileAt(config, target)
+  const tileBonus = tile && !isGoal(config, target) ? tile.reward : 0
+  const reward = goalReached ? (tile?.reward ?? rewards.goal) : rewards.step + tileBonus
+  return { position: target, reward, collided: false, goalReached }
+}
+
+// Single-agent environment with a Gym-style reset/step API. Configs with
+// several start positions are played from the first one. `random` drives the
+// stochastic dynamics until reset() is given a seed.
+export class GridEnv {
+  readonly config: EnvironmentConfig
+  readonly actionCount = ACTIONS.length
+  readonly stateCount: number
+  position: Position
+  steps = 0
+  done = false
+  seed: number | undefined
+  private random: () => number
+
+  constructor(config: EnvironmentConfig, random: () => number = Math.random) {
+    this.config = config
+    this.random = random
+    this.stateCount = config.size.x * config.size.y
+    this.position = startPositions(config)[0]
+  }
+
+  reset(seed?: number): ResetResult {
+    this.seed = seed
+    if (seed !== undefined) this.random = createRandom(seed)
+    this.position = [...startPositions(this.config)[0]] as Position
+    this.steps = 0
+    this.done = false
+    return { observation: toStateIndex(this.config, this.position), info: this.info(false, false, -1) }
+  }
+
+  step(action: number): StepResult {
+    if (this.done) throw new Error("GridEnv.step() called on a finished episode; call reset() first")
+    if (!Number.isInteger(action) || action < 0 || action >= this.actionCount) {
+      throw new RangeError(`Invalid action ${action}`)
+    }
+    const executed = executedAction(this.config, this.position, action, this.random)
+    const result = transition(this.config, this.position, executed)
+    this.position = result.position
+    this.steps += 1
+    const terminated = result.goalReached
+    const truncated = !terminated && this.steps >= maxStepsFor(this.config)
+    this.done = terminated || truncated
+    return {
+      observation: toStateIndex(this.config, this.position),
+      reward: result.reward,
+      terminated,
+      truncated,
+      info: this.info(result.collided, result.goalReached, executed),
+    }
+  }
+
+  private info(collided: boolean, goalReached: boolean, executedAction: number): StepInfo {
+    return { position: [...this.position] as Position, steps: this.steps, collided, goalReached, executedAction }
+  }
+}
@@ -0,0 +1,17 @@
+// Policy id under which keyboard-played episodes are recorded.
+export const HUMAN_POLICY_ID = "human"
+
+// Keys for each action, in ACTIONS order (Up, Down, Left, Right). Letters are
+// matched case-insensitively so Caps Lock does not get in the way.
+const ACTION_KEYS = [
+  ["arrowup", "w"],
+  ["arrowdown", "s"],
+  ["arrowleft", "a"],
+  ["arrowright", "d"],
+]
+
+// The action bound to a KeyboardEvent.key, or null for any other key.
+export function keyAction(key: string): number | null {
+  const action = ACTION_KEYS.findIndex(keys => keys.includes(key.toLowerCase()))
+  return action >= 0 ? action : null
+}
@@ -0,0 +1,95 @@
+import { type EnvironmentConfig, type Position, isObstacle } from "@/lib/grid-env"
+
+export const ACTIVATIONS = ["linear", "relu", "tanh", "sigmoid", "softmax"] as const
+export type Activation = (typeof ACTIVATIONS)[number]
+
+// Dense layer in PyTorch `nn.Linear` layout: weights[out][in].
+export interface MlpLayer {
+  weights: number[][]
+  biases: number[]
+  activation: Activation
+}
+
+// How a grid position is turned into the network input:
+// - one_hot: one input per cell, 1 at the agent's cell (toStateIndex order).
+// - coordinates: [x, y], scaled to [0, 1] unless `normalize` is false.
+// - local_window: the (2r+1)x(2r+1) cells around the agent, row by row, 1
+//   where the cell is an obstacle or off the grid.
+export type ObservationEncoding =
+  | { type: "one_hot" }
+  | { type: "coordinates"; normalize?: boolean }
+  | { type: "local_window"; radius?: number }
+
+export const OBSERVATION_ENCODINGS = ["one_hot", "coordinates", "local_window"] as const
+
+export function observationSize(encoding: ObservationEncoding, config: EnvironmentConfig): number {
+  switch (encoding.type) {
+    case "one_hot":
+      return config.size.x * config.size.y
+    case "coordinates":
+      return 2
+    case "local_window": {
+      const side = 2 * (encoding.radius ?? 1) + 1
+      return side * side
+    }
+  }
+}
+
+export function encodeObservation(encoding: ObservationEncoding, config: EnvironmentConfig, [x, y]: Position): number[] {
+  switch (encoding.type) {
+    case "one_hot": {
+      const input = new Array(config.size.x * config.size.y).fill(0)
+      input[y * config.size.x + x] = 1
+      return input
+    }
+    case "coordinates":
+      if (encoding.normalize === false) return [x, y]
+      return [x / Math.max(1, config.size.x - 1), y / Math.max(1, config.size.y - 1)]
+    case "local_window": {
+      const radius = encoding.radius ?? 1
+      const input: number[] = []
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          const cx = x + dx
+          const cy = y + dy
+          const outside = cx < 0 || cy < 0 || cx >= config.size.x || cy >= config.size.y
+          input.push(outside || isObstacle(config, [cx, cy]) ? 1 : 0)
+        }
+      }
+      return input
+    }
+  }
+}
+
+export function softmax(values: number[]): number[] {
+  const max = Math.max(...values)
+  const exps = values.map(v => Math.exp(v - max))
+  const total = exps.reduce((a, b) => a + b, 0)
+  return exps.map(e => e / total)
+}
+
+function activate(activation: Activation, values: number[]): number[] {
+  switch (activation) {
+    case "linear":
+      return values
+    case "relu":
+      return values.map(v => Math.max(0, v))
+    case "tanh":
+      return values.map(Math.tanh)
+    case "sigmoid":
+      return values.map(v => 1 / (1 + Math.exp(-v)))
+    case "softmax":
+      return softmax(values)
+  }
+}
+
+export function forward(layers: MlpLayer[], input: number[]): number[] {
+  return layers.reduce(
+    (activations, { weights, biases, activation }) =>
+      activate(
+        activation,
+        weights.map((row, out) => row.reduce((sum, weight, i) => sum + weight * activations[i], biases[out]))
+      ),
+    input
+  )
+}
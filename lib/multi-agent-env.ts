@@ -0,0 +1,170 @@
+import {
+  ACTIONS,
+  type EnvironmentConfig,
+  type Position,
+  type StepInfo,
+  executedAction,
+  maxStepsFor,
+  samePosition,
+  startPositions,
+  toStateIndex,
+  transition,
+} from "@/lib/grid-env"
+import { createRandom } from "@/lib/random"
+
+export const AGENT_COLLISION_REWARD = -1.0
+
+export interface AgentStepInfo extends StepInfo {
+  agentCollision: boolean
+  done: boolean
+}
+
+export interface MultiAgentStepResult {
+  observations: number[]
+  rewards: number[]
+  terminated: boolean[]
+  truncated: boolean
+  info: AgentStepInfo[]
+}
+
+export interface MultiAgentResetResult {
+  observations: number[]
+  info: AgentStepInfo[]
+}
+
+// Each agent chases the goal with its own index when the config lists one goal
+// per agent; otherwise any goal will do.
+export function agentGoals(config: EnvironmentConfig, agentId: number): Position[] {
+  const agentCount = startPositions(config).length
+  return agentCount > 1 && config.goals.length === agentCount ? [config.goals[agentId]] : config.goals
+}
+
+// Joint-action version of GridEnv with one agent per start position. All
+// agents move simultaneously; a move is blocked (agent stays put and pays
+// AGENT_COLLISION_REWARD) when it would enter a cell another agent ends the
+// step in, or swap cells with another agent. Agents that reach their goal stop
+// acting and keep occupying it. The episode ends once every agent is done or
+// the shared step budget runs out. `random` drives the stochastic dynamics
+// until reset() is given a seed.
+export class MultiAgentGridEnv {
+  readonly config: EnvironmentConfig
+  readonly agentCount: number
+  readonly actionCount = ACTIONS.length
+  positions: Position[]
+  finished: boolean[]
+  steps = 0
+  done = false
+  seed: number | undefined
+  private random: () => number
+
+  constructor(config: EnvironmentConfig, random: () => number = Math.random) {
+    this.config = config
+    this.random = random
+    this.agentCount = startPositions(config).length
+    this.positions = startPositions(config).map(p => [...p] as Position)
+    this.finished = this.positions.map(() => false)
+  }
+
+  reset(seed?: number): MultiAgentResetResult {
+    this.seed = seed
+    if (seed !== undefined) this.random = createRandom(seed)
+    this.positions = startPositions(this.config).map(p => [...p] as Position)
+    this.finished = this.positions.map(() => false)
+    this.steps = 0
+    this.done = false
+    return {
+      observations: this.positions.map(p => toStateIndex(this.config, p)),
+      info: this.positions.map((_, id) => this.info(id, false, false, false, -1)),
+    }
+  }
+
+  step(actions: number[]): MultiAgentStepResult {
+    if (this.done) throw new Error("MultiAgentGridEnv.step() called on a finished episode; call reset() first")
+    if (actions.length !== this.agentCount) {
+      throw new RangeError(`Expected ${this.agentCount} actions, got ${actions.length}`)
+    }
+
+    actions.forEach((action, id) => {
+      if (!this.finished[id] && (!Number.isInteger(action) || action < 0 || action >= this.actionCount)) {
+        throw new RangeError(`Invalid action ${action} for agent ${id}`)
+      }
+    })
+    // Dynamics are sampled per agent in id order, before any conflict is resolved.
+    const executed = this.positions.map((position, id) =>
+      this.finished[id] ? -1 : executedAction(this.config, position, actions[id], this.random)
+    )
+    const proposals = this.positions.map((position, id) => {
+      if (this.finished[id]) return { position, reward: 0, collided: false, goalReached: false }
+      return transition(this.config, position, executed[id], agentGoals(this.config, id))
+    })
+
+    // Blocking one agent can invalidate another's move into its cell, so
+    // resolve conflicts in rounds until the joint move is consistent. Every
+    // agent in a conflict is blocked in the same round, so no agent id wins a
+    // contested cell.
+    const blocked = this.positions.map(() => false)
+    const targetOf = (id: number) => (blocked[id] ? this.positions[id] : proposals[id].position)
+    for (;;) {
+      const conflicting = this.positions.map((_, a) => {
+        if (blocked[a] || samePosition(targetOf(a), this.positions[a])) return false
+        return this.positions.some((_, b) => {
+          if (a === b) return false
+          const sameCell = samePosition(targetOf(a), targetOf(b))
+          const swap = samePosition(targetOf(a), this.positions[b]) && samePosition(targetOf(b), this.positions[a])
+          return sameCell || swap
+        })
+      })
+      if (!conflicting.some(Boolean)) break
+      conflicting.forEach((conflict, id) => {
+        if (conflict) blocked[id] = true
+      })
+    }
+
+    this.steps += 1
+    const rewards: number[] = []
+    const terminated: boolean[] = []
+    const collisions: boolean[] = []
+    proposals.forEach((proposal, id) => {
+      if (this.finished[id]) {
+        rewards.push(0)
+        terminated.push(false)
+        collisions.push(false)
+        return
+      }
+      if (blocked[id]) {
+        rewards.push(AGENT_COLLISION_REWARD)
+        terminated.push(false)
+        collisions.push(false)
+        return
+      }
+      this.positions[id] = proposal.position
+      rewards.push(proposal.reward)
+      terminated.push(proposal.goalReached)
+      collisions.push(proposal.collided)
+      if (proposal.goalReached) this.finished[id] = true
+    })
+
+    const allFinished = this.finished.every(Boolean)
+    const truncated = !allFinished && this.steps >= maxStepsFor(this.config)
+    this.done = allFinished || truncated
+    return {
+      observations: this.positions.map(p => toStateIndex(this.config, p)),
+      rewards,
+      terminated,
+      truncated,
+      info: this.positions.map((_, id) => this.info(id, collisions[id], terminated[id], blocked[id], executed[id])),
+    }
+  }
+
+  private info(id: number, collided: boolean, goalReached: boolean, agentCollision: boolean, executedAction: number): AgentStepInfo {
+    return {
+      position: [...this.positions[id]] as Position,
+      steps: this.steps,
+      collided,
+      goalReached,
+      executedAction,
+      agentCollision,
+      done: this.finished[id],
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import {
+  ACTIONS,
+  type EnvironmentConfig,
+  type Position,
+  fromStateIndex,
+  isGoal,
+  actionOutcomes,
+  isObstacle,
+  toStateIndex,
+  transition,
+} from "@/lib/grid-env"
+import { type QTablePolicy, greedyAction } from "@/lib/policy"
+
+export type PlanningMethod = "value_iteration" | "policy_iteration"
+
+export interface PlanningOptions {
+  gamma: number
+  // Sweeps stop once the largest value change drops below theta.
+  theta: number
+  maxSweeps: number
+}
+
+export const DEFAULT_PLANNING_OPTIONS: PlanningOptions = { gamma: 0.95, theta: 1e-6, maxSweeps: 1000 }
+
+export interface PlanningResult {
+  method: PlanningMethod
+  policy: QTablePolicy
+  stateValues: number[]
+  // Bellman residual (max |ΔV|) of every sweep, in order.
+  residuals: number[]
+  sweeps: number
+  // Policy-improvement steps; zero for value iteration.
+  improvements: number
+  converged: boolean
+}
+
+// The planners solve the infinite-horizon discounted problem, so the episode
+// step cap is not part of the model. Goals are absorbing and obstacle cells are
+// never occupied; both keep a value of zero. Stochastic dynamics are part of
+// the model: every action is valued over the moves it may turn into.
+const isTerminal = (config: EnvironmentConfig, position: Position) => isObstacle(config, position) || isGoal(config, position)
+
+function actionValue(config: EnvironmentConfig, stateValues: number[], position: Position, action: number, gamma: number): number {
+  return actionOutcomes(config, position, action).reduce((value, probability, executed) => {
+    if (probability === 0) return value
+    const { position: next, reward, goalReached } = transition(config, position, executed)
+    return value + probability * (reward + (goalReached ? 0 : gamma * stateValues[toStateIndex(config, next)]))
+  }, 0)
+}
+
+function actionValuesAt(config: EnvironmentConfig, stateValues: number[], position: Position, gamma: number): number[] {
+  return ACTIONS.map((_, action) => actionValue(config, stateValues, position, action, gamma))
+}
+
+function activeStates(config: EnvironmentConfig): Position[] {
+  const stateCount = config.size.x * config.size.y
+  return Array.from({ length: stateCount }, (_, index) => fromStateIndex(config, index)).filter(
+    position => !isTerminal(config, position)
+  )
+}
+
+function toQTable(config: EnvironmentConfig, stateValues: number[], gamma: number): QTablePolicy {
+  const values = stateValues.map((_, index) => {
+    const position = fromStateIndex(config, index)
+    return isTerminal(config, position) ? ACTIONS.map(() => 0) : actionValuesAt(config, stateValues, position, gamma)
+  })
+  return { type: "q_table", values }
+}
+
+export function valueIteration(config: EnvironmentConfig, options: PlanningOptions = DEFAULT_PLANNING_OPTIONS): PlanningResult {
+  const { gamma, theta, maxSweeps } = options
+  const states = activeStates(config)
+  const stateValues = new Array(config.size.x * config.size.y).fill(0)
+  const residuals: number[] = []
+  let converged = false
+
+  while (residuals.length < maxSweeps) {
+    let delta = 0
+    for (const position of states) {
+      const index = toStateIndex(config, position)
+      const value = Math.max(...actionValuesAt(config, stateValues, position, gamma))
+      delta = Math.max(delta, Math.abs(value - stateValues[index]))
+      stateValues[index] = value
+    }
+    residuals.push(delta)
+    if (delta < theta) {
+      converged = true
+      break
+    }
+  }
+
+  return {
+    method: "value_iteration",
+    policy: toQTable(config, stateValues, gamma),
+    stateValues,
+    residuals,
+    sweeps: residuals.length,
+    improvements: 0,
+    converged,
+  }
+}
+
+// Alternates iterative policy evaluation and greedy improvement. Every
+// evaluation sweep counts towards maxSweeps and is reported as a residual.
+export function policyIteration(config: EnvironmentConfig, options: PlanningOptions = DEFAULT_PLANNING_OPTIONS): PlanningResult {
+  const { gamma, theta, maxSweeps } = options
+  const states = activeStates(config)
+  const stateValues = new Array(config.size.x * config.size.y).fill(0)
+  const actions = new Array(config.size.x * config.size.y).fill(0)
+  const residuals: number[] = []
+  let improvements = 0
+  let converged = false
+
+  while (residuals.length < maxSweeps) {
+    while (residuals.length < maxSweeps) {
+      let delta = 0
+      for (const position of states) {
+        const index = toStateIndex(config, position)
+        const value = actionValue(config, stateValues, position, actions[index], gamma)
+        delta = Math.max(delta, Math.abs(value - stateValues[index]))
+        stateValues[index] = value
+      }
+      residuals.push(delta)
+      if (delta < theta) break
+    }
+
+    let stable = true
+    for (const position of states) {
+      const index = toStateIndex(config, position)
+      const values = actionValuesAt(config, stateValues, position, gamma)
+      const best = greedyAction(values)
+      // Only switch on a strict improvement so ties cannot cycle forever.
+      if (values[best] > values[actions[index]] + 1e-12) {
+        actions[index] = best
+        stable = false
+      }
+    }
+    improvements += 1
+    if (stable) {
+      converged = true
+      break
+    }
+  }
+
+  return {
+    method: "policy_iteration",
+    policy: toQTable(config, stateValues, gamma),
+    stateValues,
+    residuals,
+    sweeps: residuals.length,
+    improvements,
+    converged,
+  }
+}
+
+export function solve(config: EnvironmentConfig, method: PlanningMethod, options: PlanningOptions = DEFAULT_PLANNING_OPTIONS): PlanningResult {
+  return method === "value_iteration" ? valueIteration(config, options) : policyIteration(config, options)
+}
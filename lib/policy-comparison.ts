@@ -0,0 +1,31 @@
+import { type EnvironmentConfig, fromStateIndex, isGoal, isObstacle } from "@/lib/grid-env"
+import { type Policy, actionProbabilities, actionValues, greedyAction } from "@/lib/policy"
+
+// The action a policy prefers in a state: the highest action value, or the
+// most likely action of a stochastic policy. Null when it has nothing to say.
+export function preferredAction(policy: Policy | null, config: EnvironmentConfig, state: number, agentId = 0): number | null {
+  const values = actionValues(policy, config, state, agentId) ?? actionProbabilities(policy, config, state, agentId)
+  return values ? greedyAction(values) : null
+}
+
+export interface PolicyDiff {
+  // States where both policies prefer an action and the two differ.
+  disagreements: number[]
+  // States where both policies prefer an action.
+  compared: number
+}
+
+// Obstacles and goals are skipped: no agent ever acts from them.
+export function comparePolicies(a: Policy | null, b: Policy | null, config: EnvironmentConfig, agentId = 0): PolicyDiff {
+  const diff: PolicyDiff = { disagreements: [], compared: 0 }
+  for (let state = 0; state < config.size.x * config.size.y; state++) {
+    const position = fromStateIndex(config, state)
+    if (isObstacle(config, position) || isGoal(config, position)) continue
+    const actionA = preferredAction(a, config, state, agentId)
+    const actionB = preferredAction(b, config, state, agentId)
+    if (actionA === null || actionB === null) continue
+    diff.compared++
+    if (actionA !== actionB) diff.disagreements.push(state)
+  }
+  return diff
+}
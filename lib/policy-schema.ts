@@ -0,0 +1,159 @@
+import { z } from "zod"
+import { ACTIONS, ACTION_NAMES, type EnvironmentConfig, startPositions } from "@/lib/grid-env"
+import { ACTIVATIONS, OBSERVATION_ENCODINGS, observationSize } from "@/lib/mlp"
+import type { MlpPolicy, Policy, RemotePolicy } from "@/lib/policy"
+import { type ParseResult, formatIssues } from "@/lib/validation"
+
+export const AGENT_POLICY_TYPES = ["q_table", "policy_table", "mlp"] as const
+export const POLICY_TYPES = [...AGENT_POLICY_TYPES, "multi_agent", "remote"] as const
+
+// Slack allowed when checking that a distribution sums to one.
+const PROBABILITY_TOLERANCE = 1e-6
+
+const finite = z.number({ invalid_type_error: "must be a number" }).finite("must be a finite number")
+
+const unknownType = (options: readonly string[], kind = "policy type"): z.ZodErrorMap => (issue, ctx) =>
+  issue.code === z.ZodIssueCode.invalid_union_discriminator
+    ? { message: `unknown ${kind}; expected one of ${options.map(type => `"${type}"`).join(", ")}` }
+    : { message: ctx.defaultError }
+
+// One row per grid cell, one column per action, in toStateIndex() order.
+function stateTable(config: EnvironmentConfig, row: z.ZodTypeAny) {
+  const stateCount = config.size.x * config.size.y
+  return z.array(row).superRefine((rows, ctx) => {
+    if (rows.length !== stateCount) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `has ${rows.length} states, but ${config.name} has ${stateCount} (${config.size.x}x${config.size.y})`,
+      })
+    }
+  })
+}
+
+const actionRow = z
+  .array(finite)
+  .length(ACTIONS.length, `must have ${ACTIONS.length} action values (${ACTION_NAMES.join(", ")})`)
+
+const probabilityRow = z
+  .array(finite.min(0, "must not be negative"))
+  .length(ACTIONS.length, `must have ${ACTIONS.length} action probabilities (${ACTION_NAMES.join(", ")})`)
+  .refine(row => Math.abs(row.reduce((a, b) => a + b, 0) - 1) <= PROBABILITY_TOLERANCE, row => ({
+    message: `must sum to 1, got ${row.reduce((a, b) => a + b, 0)}`,
+  }))
+
+const observationEncoding = z.discriminatedUnion(
+  "type",
+  [
+    z.object({ type: z.literal("one_hot") }),
+    z.object({ type: z.literal("coordinates"), normalize: z.boolean().optional() }),
+    z.object({ type: z.literal("local_window"), radius: z.number().int("must be a whole number").min(1).max(5).optional() }),
+  ],
+  { errorMap: unknownType(OBSERVATION_ENCODINGS, "observation encoding") }
+)
+
+// Remote policies are not checked against the environment; whether the server
+// knows it only shows once it is asked for actions.
+const remotePolicySchema = z.object({
+  type: z.literal("remote"),
+  endpoint: z
+    .string()
+    .url("must be a URL")
+    .refine(url => /^https?:/.test(url), "must be an http or https URL"),
+  timeoutMs: z.number().int("must be a whole number").min(1).max(60000).optional(),
+  retries: z.number().int("must be a whole number").min(0).max(10).optional(),
+})
+
+const mlpLayer = z.object({
+  weights: z.array(z.array(finite)).min(1, "must have at least one output row"),
+  biases: z.array(finite),
+  activation: z.enum(ACTIVATIONS, {
+    errorMap: () => ({ message: `must be one of ${ACTIVATIONS.map(name => `"${name}"`).join(", ")}` }),
+  }),
+})
+
+function agentPolicySchema(config: EnvironmentConfig) {
+  return z.discriminatedUnion(
+    "type",
+    [
+      z.object({ type: z.literal("q_table"), values: stateTable(config, actionRow) }),
+      z.object({ type: z.literal("policy_table"), values: stateTable(config, probabilityRow) }),
+      z.object({
+        type: z.literal("mlp"),
+        observation: observationEncoding,
+        layers: z.array(mlpLayer).min(1, "must contain at least one layer"),
+        output: z.enum(["q_values", "logits"]).optional(),
+      }),
+    ],
+    { errorMap: unknownType(AGENT_POLICY_TYPES) }
+  )
+}
+
+// Layer sizes must chain from the observation encoding to one output per
+// action. Only the first bad row of a layer is reported.
+function checkMlpShapes(policy: MlpPolicy, config: EnvironmentConfig, ctx: z.RefinementCtx, path: (string | number)[]) {
+  let inputs = observationSize(policy.observation, config)
+  policy.layers.forEach((layer, index) => {
+    const layerPath = [...path, "layers", index]
+    const badRow = layer.weights.findIndex(row => row.length !== inputs)
+    if (badRow >= 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...layerPath, "weights", badRow],
+        message: `expected ${inputs} inputs, got ${layer.weights[badRow].length}`,
+      })
+    }
+    if (layer.biases.length !== layer.weights.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...layerPath, "biases"],
+        message: `expected ${layer.weights.length} biases (one per output row), got ${layer.biases.length}`,
+      })
+    }
+    inputs = layer.weights.length
+  })
+  if (inputs !== ACTIONS.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [...path, "layers", policy.layers.length - 1, "weights"],
+      message: `final layer must output ${ACTIONS.length} values (${ACTION_NAMES.join(", ")}), got ${inputs}`,
+    })
+  }
+}
+
+export function policySchema(config: EnvironmentConfig) {
+  const agentCount = startPositions(config).length
+  return z.discriminatedUnion(
+    "type",
+    [
+      ...agentPolicySchema(config).options,
+      z.object({
+        type: z.literal("multi_agent"),
+        policies: z
+          .array(agentPolicySchema(config))
+          .length(agentCount, `must hold one policy per agent (${config.name} has ${agentCount})`),
+      }),
+      remotePolicySchema,
+    ],
+    { errorMap: unknownType(POLICY_TYPES) }
+  ).superRefine((policy, ctx) => {
+    const agentPolicies =
+      policy.type === "multi_agent"
+        ? policy.policies.map((agentPolicy, index) => ({ agentPolicy, path: ["policies", index] }))
+        : [{ agentPolicy: policy, path: [] }]
+    agentPolicies.forEach(({ agentPolicy, path }) => {
+      if (agentPolicy.type === "mlp") checkMlpShapes(agentPolicy, config, ctx, path)
+    })
+  })
+}
+
+// Checks an uploaded policy against the environment it will drive.
+export function parsePolicy(json: unknown, config: EnvironmentConfig): ParseResult<Policy> {
+  const result = policySchema(config).safeParse(json)
+  return result.success ? { success: true, data: result.data as Policy } : { success: false, errors: formatIssues(result.error) }
+}
+
+// For remote policies configured in the sidebar rather than uploaded.
+export function parseRemotePolicy(json: unknown): ParseResult<RemotePolicy> {
+  const result = remotePolicySchema.safeParse(json)
+  return result.success ? { success: true, data: result.data } : { success: false, errors: formatIssues(result.error) }
+}
@@ -0,0 +1,104 @@
+import { ACTIONS, type EnvironmentConfig, fromStateIndex } from "@/lib/grid-env"
+import { type MlpLayer, type ObservationEncoding, encodeObservation, forward, softmax } from "@/lib/mlp"
+
+// Per-state action values, indexed by toStateIndex().
+export interface QTablePolicy {
+  type: "q_table"
+  values: number[][]
+}
+
+// Per-state probability distribution over the actions, sampled at every step.
+export interface PolicyTablePolicy {
+  type: "policy_table"
+  values: number[][]
+}
+
+// Small neural network evaluated per step. With `output: "q_values"` (the
+// default) the outputs are action values and the greedy action is taken; with
+// `output: "logits"` they are softmaxed into a distribution and sampled.
+export interface MlpPolicy {
+  type: "mlp"
+  observation: ObservationEncoding
+  layers: MlpLayer[]
+  output?: "q_values" | "logits"
+}
+
+// One policy per agent, looked up by agent id. Any other policy is shared by
+// every agent in the environment.
+export interface MultiAgentPolicy {
+  type: "multi_agent"
+  policies: Policy[]
+}
+
+// Actions come from an inference server: every step POSTs each agent's
+// observation to `endpoint` (see lib/remote-policy). Nothing about it is known
+// locally, so it has no action values or probabilities and selectAction()
+// falls back to random actions for it.
+export interface RemotePolicy {
+  type: "remote"
+  endpoint: string
+  timeoutMs?: number
+  retries?: number
+}
+
+export type Policy = QTablePolicy | PolicyTablePolicy | MlpPolicy | MultiAgentPolicy | RemotePolicy
+
+export function policyForAgent(policy: Policy | null, agentId: number): Policy | null {
+  if (!policy) return null
+  if (policy.type === "multi_agent") return policy.policies[agentId] ?? null
+  return policy
+}
+
+function evaluateMlp(policy: MlpPolicy, config: EnvironmentConfig, state: number): number[] {
+  return forward(policy.layers, encodeObservation(policy.observation, config, fromStateIndex(config, state)))
+}
+
+// Action values for value-based policies; undefined for stochastic ones.
+export function actionValues(policy: Policy | null, config: EnvironmentConfig, state: number, agentId = 0): number[] | undefined {
+  const agentPolicy = policyForAgent(policy, agentId)
+  if (agentPolicy?.type === "q_table") return agentPolicy.values[state]
+  if (agentPolicy?.type === "mlp" && agentPolicy.output !== "logits") return evaluateMlp(agentPolicy, config, state)
+  return undefined
+}
+
+// Action distribution for stochastic policies; undefined for value-based ones.
+export function actionProbabilities(policy: Policy | null, config: EnvironmentConfig, state: number, agentId = 0): number[] | undefined {
+  const agentPolicy = policyForAgent(policy, agentId)
+  if (agentPolicy?.type === "policy_table") return agentPolicy.values[state]
+  if (agentPolicy?.type === "mlp" && agentPolicy.output === "logits") return softmax(evaluateMlp(agentPolicy, config, state))
+  return undefined
+}
+
+export function greedyAction(values: number[]): number {
+  return values.indexOf(Math.max(...values))
+}
+
+export function sampleAction(probabilities: number[], random: () => number = Math.random): number {
+  let threshold = random()
+  for (let action = 0; action < probabilities.length; action++) {
+    threshold -= probabilities[action]
+    if (threshold < 0) return action
+  }
+  // Rounding can leave a sliver of mass unassigned; give it to the last
+  // action that has any.
+  for (let action = probabilities.length - 1; action > 0; action--) {
+    if (probabilities[action] > 0) return action
+  }
+  return 0
+}
+
+// Greedy action for Q-tables, a sampled one for probability tables, or a
+// uniformly random one when the policy has nothing for the agent's state.
+export function selectAction(
+  policy: Policy | null,
+  config: EnvironmentConfig,
+  state: number,
+  agentId = 0,
+  random: () => number = Math.random
+): number {
+  const values = actionValues(policy, config, state, agentId)
+  if (values) return greedyAction(values)
+  const probabilities = actionProbabilities(policy, config, state, agentId)
+  if (probabilities) return sampleAction(probabilities, random)
+  return Math.floor(random() * ACTIONS.length)
+}
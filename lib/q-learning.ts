@@ -0,0 +1,92 @@
+import { type EnvironmentConfig, GridEnv } from "@/lib/grid-env"
+import { type QTablePolicy, greedyAction } from "@/lib/policy"
+
+export interface EpsilonSchedule {
+  start: number
+  end: number
+  // Episodes over which epsilon moves from `start` to `end`.
+  decayEpisodes: number
+  decay: "linear" | "exponential"
+}
+
+export interface QLearningOptions {
+  alpha: number
+  gamma: number
+  epsilon: EpsilonSchedule
+  episodes: number
+}
+
+export const DEFAULT_Q_LEARNING_OPTIONS: QLearningOptions = {
+  alpha: 0.1,
+  gamma: 0.95,
+  epsilon: { start: 1, end: 0.05, decayEpisodes: 300, decay: "exponential" },
+  episodes: 500,
+}
+
+export function epsilonAt(schedule: EpsilonSchedule, episode: number): number {
+  const { start, end, decayEpisodes, decay } = schedule
+  if (decayEpisodes <= 0 || episode >= decayEpisodes) return end
+  const progress = episode / decayEpisodes
+  if (decay === "linear") return start + (end - start) * progress
+  // Geometric interpolation; fall back to linear when either end is zero.
+  if (start <= 0 || end <= 0) return start + (end - start) * progress
+  return start * Math.pow(end / start, progress)
+}
+
+export interface EpisodeSummary {
+  episode: number
+  epsilon: number
+  return: number
+  length: number
+  success: boolean
+}
+
+// Tabular Q-learning against a GridEnv. Episodes are run one at a time via
+// runEpisode() so callers can interleave training with rendering. `random`
+// drives both exploration and the environment's dynamics.
+export class QLearningTrainer {
+  readonly env: GridEnv
+  readonly options: QLearningOptions
+  readonly values: number[][]
+  episode = 0
+  private readonly random: () => number
+
+  constructor(config: EnvironmentConfig, options: QLearningOptions = DEFAULT_Q_LEARNING_OPTIONS, random: () => number = Math.random) {
+    this.env = new GridEnv(config, random)
+    this.options = options
+    this.random = random
+    this.values = Array.from({ length: this.env.stateCount }, () => new Array(this.env.actionCount).fill(0))
+  }
+
+  get finished(): boolean {
+    return this.episode >= this.options.episodes
+  }
+
+  runEpisode(): EpisodeSummary {
+    const { alpha, gamma } = this.options
+    const epsilon = epsilonAt(this.options.epsilon, this.episode)
+    let { observation: state } = this.env.reset()
+    let episodeReturn = 0
+    let success = false
+    for (;;) {
+      const action =
+        this.random() < epsilon ? Math.floor(this.random() * this.env.actionCount) : greedyAction(this.values[state])
+      const { observation: next, reward, terminated, truncated } = this.env.step(action)
+      // Truncation is not a real terminal state, so it still bootstraps.
+      const target = terminated ? reward : reward + gamma * Math.max(...this.values[next])
+      this.values[state][action] += alpha * (target - this.values[state][action])
+      episodeReturn += reward
+      state = next
+      if (terminated || truncated) {
+        success = terminated
+        break
+      }
+    }
+    this.episode += 1
+    return { episode: this.episode, epsilon, return: episodeReturn, length: this.env.steps, success }
+  }
+
+  toPolicy(): QTablePolicy {
+    return { type: "q_table", values: this.values.map(row => [...row]) }
+  }
+}
@@ -0,0 +1,35 @@
+// Seedable pseudo-random numbers. Everything random in the simulator (action
+// sampling, dynamics, exploration) takes a `() => number` so a run can be
+// replayed exactly from its seed.
+
+export const MAX_SEED = 0xffffffff
+
+// Sub-stream of an episode's seed used for the agents' own random choices;
+// the environment's dynamics use the episode seed itself.
+export const ACTION_STREAM = 1
+
+// Mulberry32: tiny, fast and good enough for simulation. Returns floats in [0, 1).
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Independent seed for a numbered sub-stream, e.g. one per episode, so each
+// episode can be reproduced without replaying the ones before it.
+export function deriveSeed(seed: number, stream: number): number {
+  let h = (seed ^ Math.imul(stream + 0x9e3779b9, 0x85ebca6b)) >>> 0
+  h = Math.imul(h ^ (h >>> 16), 0x7feb352d)
+  h = Math.imul(h ^ (h >>> 15), 0x846ca68b)
+  return (h ^ (h >>> 16)) >>> 0
+}
+
+// Fresh seed for when the user asks for a new one.
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED)
+}
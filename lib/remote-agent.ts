@@ -0,0 +1,168 @@
+import { z } from "zod"
+import type { EpisodeRecording, RecordedStep } from "@/lib/episode-recording"
+import { ACTIONS, type EnvironmentConfig, startPositions } from "@/lib/grid-env"
+import type { Policy, QTablePolicy } from "@/lib/policy"
+import { type ParseResult, formatIssues } from "@/lib/validation"
+
+// Episodes driven by a remote agent are recorded under this policy id.
+export const REMOTE_POLICY_ID = "remote"
+
+// What an external trainer publishes to /api/remote, one message per reset or
+// joint step. Every array is indexed by agent id and states are toStateIndex()
+// indices in the environment selected in the simulator. The view only renders
+// what it is told; it never steps its own engine for a remote agent.
+//
+// - reset: a new episode starts; `observations` defaults to the start cells.
+// - step: the agents took `actions` and ended up in `observations`. `qValues`
+//   are the action values each agent saw before acting (null when it has none
+//   to report). `done` ends the episode, by timeout when `truncated`.
+export interface RemoteResetMessage {
+  type: "reset"
+  episode?: number
+  observations?: number[]
+}
+
+export interface RemoteStepMessage {
+  type: "step"
+  actions: number[]
+  observations: number[]
+  rewards?: number[]
+  qValues?: (number[] | null)[]
+  done?: boolean
+  truncated?: boolean
+}
+
+export type RemoteAgentMessage = RemoteResetMessage | RemoteStepMessage
+
+const state = z.number().int("must be a whole number").min(0)
+const action = z
+  .number()
+  .int("must be a whole number")
+  .min(0)
+  .max(ACTIONS.length - 1, `must be an action index from 0 to ${ACTIONS.length - 1}`)
+
+const remoteMessageSchema = z.discriminatedUnion("type", [
+  z
+    .object({
+      type: z.literal("reset"),
+      episode: z.number().int().min(1).optional(),
+      observations: z.array(state).min(1).optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("step"),
+      actions: z.array(action).min(1),
+      observations: z.array(state).min(1),
+      rewards: z.array(z.number()).optional(),
+      qValues: z.array(z.array(z.number()).length(ACTIONS.length).nullable()).optional(),
+      done: z.boolean().optional(),
+      truncated: z.boolean().optional(),
+    })
+    .strict(),
+])
+
+export function parseRemoteMessage(json: unknown): ParseResult<RemoteAgentMessage> {
+  const result = remoteMessageSchema.safeParse(json)
+  return result.success ? { success: true, data: result.data } : { success: false, errors: formatIssues(result.error) }
+}
+
+// A recorded log is JSONL with one message per line; blank lines are skipped.
+export function parseRemoteLog(text: string): ParseResult<RemoteAgentMessage[]> {
+  const messages: RemoteAgentMessage[] = []
+  const errors: string[] = []
+  text.split("\n").forEach((line, index) => {
+    if (line.trim() === "") return
+    let json: unknown
+    try {
+      json = JSON.parse(line)
+    } catch (error) {
+      errors.push(`line ${index + 1}: Not valid JSON: ${(error as Error).message}`)
+      return
+    }
+    const result = parseRemoteMessage(json)
+    if (result.success) messages.push(result.data)
+    else errors.push(...result.errors.map(error => `line ${index + 1}: ${error}`))
+  })
+  if (errors.length > 0) return { success: false, errors }
+  if (messages.length === 0) return { success: false, errors: ["The log has no messages"] }
+  return { success: true, data: messages }
+}
+
+// Checks a well-formed message against the environment it is rendered in.
+export function remoteMessageErrors(message: RemoteAgentMessage, config: EnvironmentConfig): string[] {
+  const agentCount = startPositions(config).length
+  const stateCount = config.size.x * config.size.y
+  const errors: string[] = []
+  const checkLength = (field: string, values: unknown[] | undefined) => {
+    if (values && values.length !== agentCount) errors.push(`${field}: expected ${agentCount} entries (one per agent), got ${values.length}`)
+  }
+  checkLength("observations", message.observations)
+  message.observations?.forEach((observation, id) => {
+    if (observation >= stateCount) errors.push(`observations[${id}]: state ${observation} is outside the ${config.size.x}x${config.size.y} grid`)
+  })
+  if (message.type === "step") {
+    checkLength("actions", message.actions)
+    checkLength("rewards", message.rewards)
+    checkLength("qValues", message.qValues)
+  }
+  return errors
+}
+
+// Appends a remote step to the episode's recording, closing it when the step
+// ends the episode. Remote agents do not report obstacle bumps, so `collided`
+// is always false.
+export function recordRemoteStep(recording: EpisodeRecording, message: RemoteStepMessage): RecordedStep {
+  const last = recording.steps[recording.steps.length - 1]
+  const step: RecordedStep = {
+    states: last ? last.nextStates : recording.startStates,
+    actions: message.actions,
+    rewards: message.rewards ?? message.actions.map(() => 0),
+    nextStates: message.observations,
+    qValues: message.qValues ?? message.actions.map(() => null),
+    collided: message.actions.map(() => false),
+  }
+  recording.steps.push(step)
+  if (message.done) Object.assign(recording, { finished: true, terminated: !message.truncated, truncated: message.truncated ?? false })
+  return step
+}
+
+// The remote agent's Q-values as a Q-table (one per agent when there are
+// several), filled in as states are reported. States not reported yet have no
+// row, so they show no arrow or value.
+export function withRemoteQValues(
+  policy: Policy | null,
+  config: EnvironmentConfig,
+  states: number[],
+  qValues: (number[] | null)[]
+): Policy {
+  const tables = states.map((_, id): QTablePolicy => {
+    const previous = policy?.type === "multi_agent" ? policy.policies[id] : policy
+    const values = previous?.type === "q_table" ? [...previous.values] : new Array<number[]>(config.size.x * config.size.y)
+    return { type: "q_table", values }
+  })
+  qValues.forEach((values, id) => {
+    if (values) tables[id].values[states[id]] = values
+  })
+  return tables.length === 1 ? tables[0] : { type: "multi_agent", policies: tables }
+}
+
+// The log a remote agent would have published while playing `recording`.
+export function recordingMessages(recording: EpisodeRecording): RemoteAgentMessage[] {
+  const steps = recording.steps.map((step, index): RemoteStepMessage => {
+    const message: RemoteStepMessage = {
+      type: "step",
+      actions: step.actions,
+      observations: step.nextStates,
+      rewards: step.rewards,
+      qValues: step.qValues,
+    }
+    const last = index === recording.steps.length - 1
+    return last && recording.finished ? { ...message, done: true, truncated: recording.truncated } : message
+  })
+  return [{ type: "reset", episode: recording.episode, observations: recording.startStates }, ...steps]
+}
+
+export function toRemoteLog(recordings: EpisodeRecording[]): string {
+  return recordings.flatMap(recordingMessages).map(message => `${JSON.stringify(message)}\n`).join("")
+}
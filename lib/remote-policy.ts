@@ -0,0 +1,144 @@
+import { z } from "zod"
+import { ACTIONS, ACTION_NAMES, type Position, toStateIndex } from "@/lib/grid-env"
+import type { MultiAgentGridEnv } from "@/lib/multi-agent-env"
+import type { RemotePolicy } from "@/lib/policy"
+import { formatIssues } from "@/lib/validation"
+
+export const DEFAULT_REMOTE_TIMEOUT_MS = 1000
+export const DEFAULT_REMOTE_RETRIES = 2
+// Wait before the n-th retry is n times this.
+const RETRY_BACKOFF_MS = 100
+
+// Body POSTed to the endpoint, once per agent and step.
+export interface RemoteObservation {
+  // toStateIndex() of the agent's cell.
+  observation: number
+  agent: number
+  position: Position
+  step: number
+  episode: number
+}
+
+// What the endpoint answers. `qValues`, when given, are shown like a
+// Q-table's and recorded with the step.
+export interface RemoteDecision {
+  action: number
+  qValues?: number[]
+}
+
+// One step's requests: the slowest agent's round trip and the retries spent.
+export interface RemoteStepTiming {
+  latencyMs: number
+  retries: number
+}
+
+const decisionSchema = z.object({
+  action: z
+    .number()
+    .int("must be a whole number")
+    .min(0)
+    .max(ACTIONS.length - 1, `must be an action index from 0 to ${ACTIONS.length - 1} (${ACTION_NAMES.join(", ")})`),
+  qValues: z.array(z.number()).length(ACTIONS.length, `must have ${ACTIONS.length} action values`).optional(),
+})
+
+export class RemotePolicyError extends Error {
+  // False when asking again cannot help, e.g. a 4xx status or a malformed answer.
+  readonly retryable: boolean
+
+  constructor(message: string, retryable: boolean) {
+    super(message)
+    this.name = "RemotePolicyError"
+    this.retryable = retryable
+  }
+}
+
+async function requestOnce(policy: RemotePolicy, body: RemoteObservation): Promise<RemoteDecision> {
+  const timeoutMs = policy.timeoutMs ?? DEFAULT_REMOTE_TIMEOUT_MS
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  let response: Response
+  try {
+    response = await fetch(policy.endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    })
+  } catch (error) {
+    const message = controller.signal.aborted ? `no answer within ${timeoutMs} ms` : (error as Error).message
+    throw new RemotePolicyError(message, true)
+  } finally {
+    clearTimeout(timer)
+  }
+  if (!response.ok) {
+    throw new RemotePolicyError(`HTTP ${response.status} ${response.statusText}`.trim(), response.status >= 500 || response.status === 429)
+  }
+  let json: unknown
+  try {
+    json = await response.json()
+  } catch {
+    throw new RemotePolicyError("the answer is not valid JSON", false)
+  }
+  const parsed = decisionSchema.safeParse(json)
+  if (!parsed.success) throw new RemotePolicyError(`unexpected answer: ${formatIssues(parsed.error).join("; ")}`, false)
+  return parsed.data
+}
+
+// Asks for one agent's action, retrying timeouts, network errors and server
+// errors up to `policy.retries` times.
+export async function requestDecision(policy: RemotePolicy, body: RemoteObservation): Promise<{ decision: RemoteDecision; retries: number }> {
+  const retries = policy.retries ?? DEFAULT_REMOTE_RETRIES
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return { decision: await requestOnce(policy, body), retries: attempt }
+    } catch (error) {
+      const remoteError = error as RemotePolicyError
+      if (!remoteError.retryable || attempt >= retries) {
+        const tries = attempt + 1
+        throw new RemotePolicyError(`${policy.endpoint}: ${remoteError.message}${tries > 1 ? ` (after ${tries} tries)` : ""}`, false)
+      }
+      await new Promise(resolve => setTimeout(resolve, RETRY_BACKOFF_MS * (attempt + 1)))
+    }
+  }
+}
+
+// Decisions for every agent still acting, requested in parallel; null for
+// agents in `skip` (keyboard-driven ones) and those already done.
+export async function requestDecisions(
+  policy: RemotePolicy,
+  env: MultiAgentGridEnv,
+  episode: number,
+  skip: number[] = []
+): Promise<{ decisions: (RemoteDecision | null)[]; timing: RemoteStepTiming }> {
+  const started = performance.now()
+  const results = await Promise.all(
+    env.positions.map((position, agent) => {
+      if (env.finished[agent] || skip.includes(agent)) return null
+      const observation = toStateIndex(env.config, position)
+      return requestDecision(policy, { observation, agent, position: [...position] as Position, step: env.steps, episode })
+    })
+  )
+  return {
+    decisions: results.map(result => result?.decision ?? null),
+    timing: {
+      latencyMs: performance.now() - started,
+      retries: results.reduce((total, result) => total + (result?.retries ?? 0), 0),
+    },
+  }
+}
+
+// Running latency figures for the overlay.
+export interface RemoteLatency {
+  lastMs: number
+  meanMs: number
+  steps: number
+  retries: number
+  // Retries spent on the last step alone.
+  lastRetries: number
+}
+
+export function addLatency(latency: RemoteLatency | null, { latencyMs, retries }: RemoteStepTiming): RemoteLatency {
+  const steps = (latency?.steps ?? 0) + 1
+  const meanMs = latency ? latency.meanMs + (latencyMs - latency.meanMs) / steps : latencyMs
+  return { lastMs: latencyMs, meanMs, steps, retries: (latency?.retries ?? 0) + retries, lastRetries: retries }
+}
@@ -0,0 +1,83 @@
+import type { RemoteAgentMessage } from "@/lib/remote-agent"
+
+// Comment lines sent this often keep idle proxies from closing the stream.
+const KEEP_ALIVE_MS = 15_000
+
+type Listener = (message: RemoteAgentMessage) => void
+
+// Kept on globalThis, like the env sessions, so `next dev` reloads do not drop
+// connected viewers. Messages are not buffered: a viewer only sees what is
+// published while it is connected.
+const globalStore = globalThis as typeof globalThis & {
+  rlSimulatorRemoteStream?: { listeners: Set<Listener>; replay: ReturnType<typeof setTimeout> | null }
+}
+const hub = (globalStore.rlSimulatorRemoteStream ??= { listeners: new Set(), replay: null })
+
+// Sends the message to every connected viewer; returns how many got it. A
+// viewer whose stream can no longer be written to is dropped.
+export function publish(message: RemoteAgentMessage): number {
+  hub.listeners.forEach(listener => {
+    try {
+      listener(message)
+    } catch {
+      hub.listeners.delete(listener)
+    }
+  })
+  return hub.listeners.size
+}
+
+// Server-sent events carrying every published message until `signal` aborts.
+export function remoteEventStream(signal: AbortSignal): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let close = () => {}
+  return new ReadableStream({
+    start(controller) {
+      const send = (text: string) => controller.enqueue(encoder.encode(text))
+      const listener: Listener = message => send(`data: ${JSON.stringify(message)}\n\n`)
+      const keepAlive = setInterval(() => {
+        try {
+          send(": keep-alive\n\n")
+        } catch {
+          close()
+        }
+      }, KEEP_ALIVE_MS)
+      hub.listeners.add(listener)
+      close = () => {
+        clearInterval(keepAlive)
+        hub.listeners.delete(listener)
+      }
+      signal.addEventListener("abort", () => {
+        close()
+        try {
+          controller.close()
+        } catch {
+          // Already cancelled by the reader.
+        }
+      })
+      send("retry: 2000\n\n")
+    },
+    cancel() {
+      close()
+    },
+  })
+}
+
+// Local stand-in for a trainer: publishes a recorded log one message every
+// `intervalMs`. Starting a replay cancels the one still running.
+export function replayLog(messages: RemoteAgentMessage[], intervalMs: number) {
+  stopReplay()
+  const next = (index: number) => {
+    if (index >= messages.length) {
+      hub.replay = null
+      return
+    }
+    publish(messages[index])
+    hub.replay = setTimeout(() => next(index + 1), intervalMs)
+  }
+  next(0)
+}
+
+export function stopReplay() {
+  if (hub.replay) clearTimeout(hub.replay)
+  hub.replay = null
+}
@@ -0,0 +1,22 @@
+// Time spent working per tick before yielding back to the render loop.
+export const TICK_BUDGET_MS = 12
+
+// Runs `step` until `task` is finished, in ticks of TICK_BUDGET_MS so the page
+// keeps rendering in between. `onTick` runs after every tick, the last one
+// included, with whether the task has finished. Returns a function that
+// cancels the ticks still to come.
+export function runInTicks(task: { readonly finished: boolean }, step: () => void, onTick: (finished: boolean) => void): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let cancelled = false
+  const tick = () => {
+    const deadline = performance.now() + TICK_BUDGET_MS
+    while (!task.finished && performance.now() < deadline) step()
+    onTick(task.finished)
+    if (!task.finished && !cancelled) timer = setTimeout(tick, 0)
+  }
+  tick()
+  return () => {
+    cancelled = true
+    clearTimeout(timer)
+  }
+}
@@ -0,0 +1,12 @@
+import type { z } from "zod"
+
+export type ParseResult<T> = { success: true; data: T } | { success: false; errors: string[] }
+
+// Renders a zod path as it would be written in the file, e.g. `goals[0][1]`.
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((text, key) => (typeof key === "number" ? `${text}[${key}]` : text ? `${text}.${key}` : key), "")
+}
+
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => (issue.path.length > 0 ? `${formatPath(issue.path)}: ${issue.message}` : issue.message))
+}
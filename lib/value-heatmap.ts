@@ -0,0 +1,61 @@
+import { type EnvironmentConfig, isGoal, isObstacle, toStateIndex } from "@/lib/grid-env"
+import { type Policy, actionValues } from "@/lib/policy"
+
+// What the floor overlay shows:
+// - state_value: each tile coloured by its max-Q.
+// - action_values: each tile split into four wedges, one per action.
+export const VALUE_OVERLAYS = ["off", "state_value", "action_values"] as const
+export type ValueOverlay = (typeof VALUE_OVERLAYS)[number]
+
+// Viridis-like ramp from the lowest to the highest value on the grid.
+export const HEATMAP_COLORS = ["#440154", "#3b528b", "#21918c", "#5ec962", "#fde725"]
+
+// Action values per state in toStateIndex() order; null where the agent never
+// chooses (obstacles and goals). min/max span every non-null value.
+export interface ValueGrid {
+  values: (number[] | null)[]
+  min: number
+  max: number
+}
+
+export function valueGrid(policy: Policy | null, config: EnvironmentConfig, agentId = 0): ValueGrid | null {
+  const values: (number[] | null)[] = []
+  let min = Infinity
+  let max = -Infinity
+  for (let y = 0; y < config.size.y; y++) {
+    for (let x = 0; x < config.size.x; x++) {
+      const state = toStateIndex(config, [x, y])
+      const actions = isObstacle(config, [x, y]) || isGoal(config, [x, y]) ? undefined : actionValues(policy, config, state, agentId)
+      values[state] = actions ?? null
+      actions?.forEach(value => {
+        min = Math.min(min, value)
+        max = Math.max(max, value)
+      })
+    }
+  }
+  // Stochastic policies and missing policies have no values to show.
+  return min <= max ? { values, min, max } : null
+}
+
+export function stateValue(actions: number[]): number {
+  return Math.max(...actions)
+}
+
+// Position of `value` on the grid's range, from 0 to 1.
+export function normalizeValue(grid: ValueGrid, value: number): number {
+  return grid.max > grid.min ? (value - grid.min) / (grid.max - grid.min) : 0.5
+}
+
+function hexChannels(hex: string): number[] {
+  return [1, 3, 5].map(offset => parseInt(hex.slice(offset, offset + 2), 16))
+}
+
+// CSS colour for a normalized value, interpolated between HEATMAP_COLORS.
+export function heatmapColor(t: number): string {
+  const scaled = Math.max(0, Math.min(1, t)) * (HEATMAP_COLORS.length - 1)
+  const index = Math.min(Math.floor(scaled), HEATMAP_COLORS.length - 2)
+  const from = hexChannels(HEATMAP_COLORS[index])
+  const to = hexChannels(HEATMAP_COLORS[index + 1])
+  const [r, g, b] = from.map((channel, i) => Math.round(channel + (to[i] - channel) * (scaled - index)))
+  return `rgb(${r}, ${g}, ${b})`
+}
@@ -0,0 +1,58 @@
+import type { EpisodeRecording } from "@/lib/episode-recording"
+import { fromStateIndex, isGoal } from "@/lib/grid-env"
+import { agentGoals } from "@/lib/multi-agent-env"
+
+// Per-episode counts kept for the "last N episodes" view.
+export const MAX_RECENT_EPISODES = 100
+
+// Visits per state in toStateIndex() order, summed over every agent.
+// `recent` holds the newest episodes' counts, oldest first.
+export interface VisitationLog {
+  total: number[]
+  episodes: number
+  recent: number[][]
+}
+
+export function createVisitationLog(stateCount: number): VisitationLog {
+  return { total: new Array(stateCount).fill(0), episodes: 0, recent: [] }
+}
+
+// Every state an agent occupied during the episode, including the start.
+// Agents waiting on their goal for the others to finish are not counted.
+export function episodeVisits(recording: EpisodeRecording): number[] {
+  const { environment } = recording
+  const visits = new Array(environment.size.x * environment.size.y).fill(0)
+  recording.startStates.forEach(state => visits[state]++)
+  recording.steps.forEach(step =>
+    step.states.forEach((state, id) => {
+      if (!isGoal(environment, fromStateIndex(environment, state), agentGoals(environment, id))) visits[step.nextStates[id]]++
+    })
+  )
+  return visits
+}
+
+// An episode played on a grid of another size, e.g. an editor draft, is left
+// out.
+export function addEpisodeVisits(log: VisitationLog, visits: number[]): VisitationLog {
+  if (visits.length !== log.total.length) return log
+  return {
+    total: log.total.map((count, state) => count + visits[state]),
+    episodes: log.episodes + 1,
+    recent: [...log.recent, visits].slice(-MAX_RECENT_EPISODES),
+  }
+}
+
+export interface VisitationOptions {
+  // Average visits per episode instead of raw counts.
+  normalize: boolean
+  // Only the newest episodes, up to MAX_RECENT_EPISODES; null for all.
+  lastEpisodes: number | null
+}
+
+export function visitationCounts(log: VisitationLog, { normalize, lastEpisodes }: VisitationOptions): number[] {
+  const episodes = lastEpisodes === null ? [] : log.recent.slice(-lastEpisodes)
+  const counts =
+    lastEpisodes === null ? log.total : log.total.map((_, state) => episodes.reduce((sum, visits) => sum + visits[state], 0))
+  const episodeCount = lastEpisodes === null ? log.episodes : episodes.length
+  return normalize && episodeCount > 0 ? counts.map(count => count / episodeCount) : counts
+}